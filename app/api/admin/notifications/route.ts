@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { flushOutbox, listOutboxEntries, OutboxStatus } from '@/lib/notifications';
+
+interface FlushRequest {
+  limit?: number;
+}
+
+const OUTBOX_STATUSES: OutboxStatus[] = ['pending', 'sending', 'sent', 'failed'];
+
+// List notification outbox entries: ?status=pending|sending|sent|failed|all&limit=50
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') || 'pending';
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+
+    if (statusParam !== 'all' && !OUTBOX_STATUSES.includes(statusParam as OutboxStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${[...OUTBOX_STATUSES, 'all'].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const entries = await listOutboxEntries(statusParam === 'all' ? null : statusParam as OutboxStatus, limit);
+
+    return NextResponse.json({
+      count: entries.length,
+      entries,
+    });
+  } catch (error) {
+    console.error('Error listing notification outbox:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Retry unsent notifications - call from a scheduler or by hand after a provider outage
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { limit }: FlushRequest = await request.json().catch(() => ({}));
+    const results = await flushOutbox(Math.min(Number(limit) || 50, 200));
+
+    return NextResponse.json({
+      sent: results.filter((result) => result.status === 'sent').length,
+      pending: results.filter((result) => result.status === 'pending').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      results,
+    });
+  } catch (error) {
+    console.error('Error flushing notification outbox:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to flush notification outbox',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { syncPlans } from '@/lib/plan-sync';
+
+interface PlanSyncRequest {
+  createMissing?: boolean;
+}
+
+// Drift report only - never changes Razorpay or the catalog
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const report = await syncPlans();
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error checking plan catalog against Razorpay:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check plans',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Drift report, optionally creating active catalog plans that are missing on Razorpay
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { createMissing }: PlanSyncRequest = await request.json().catch(() => ({}));
+    const report = await syncPlans({ createMissing: createMissing === true });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error syncing plan catalog with Razorpay:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to sync plans',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
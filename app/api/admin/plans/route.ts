@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { CatalogPlan, getPlanCatalog, getRazorpayMode, upsertCatalogPlan, validateCatalogPlan } from '@/lib/plan-catalog';
+
+// Full catalog including archived plans and where it was loaded from
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { source, plans } = await getPlanCatalog({ includeArchived: true });
+
+    return NextResponse.json({
+      mode: getRazorpayMode(),
+      source,
+      plans,
+    });
+  } catch (error) {
+    console.error('Error fetching plan catalog:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Add or change a plan - archive a plan by setting status to "archived", never delete it
+export async function PUT(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const plan: CatalogPlan = await request.json();
+
+    const invalidReason = validateCatalogPlan(plan);
+    if (invalidReason) {
+      return NextResponse.json({ error: invalidReason }, { status: 400 });
+    }
+
+    const catalogPlan: CatalogPlan = {
+      key: plan.key,
+      tier: plan.tier,
+      renewalPeriod: plan.renewalPeriod,
+      amount: plan.amount,
+      currency: plan.currency,
+      displayName: plan.displayName,
+      description: plan.description || null,
+      features: plan.features,
+      status: plan.status,
+      ...(plan.rank !== undefined && { rank: plan.rank }),
+      razorpayPlanIds: {
+        test: plan.razorpayPlanIds.test || null,
+        live: plan.razorpayPlanIds.live || null,
+      },
+    };
+
+    await upsertCatalogPlan(catalogPlan);
+
+    return NextResponse.json({ message: 'Plan saved', plan: catalogPlan });
+  } catch (error) {
+    console.error('Error saving catalog plan:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to save plan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { reconcileSubscriptions } from '@/lib/reconciliation';
+
+interface ReconcileRequest {
+  dryRun?: boolean; // Reports only unless explicitly false
+  repair?: boolean; // Same as dryRun: false
+  limit?: number;
+  cursor?: string | null;
+}
+
+const MAX_LIMIT = 1000;
+
+// Drift report only - never changes stored tiers: ?limit=200&cursor=sub_xxx
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const report = await reconcileSubscriptions({
+      dryRun: true,
+      limit: Math.min(Number(searchParams.get('limit')) || 200, MAX_LIMIT),
+      cursor: searchParams.get('cursor'),
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error checking tiers against Razorpay subscriptions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile subscriptions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Drift report that repairs drift through the webhook handlers only when asked to -
+// dryRun: false or repair: true. Anything else, including an empty body, is a dry run.
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { dryRun, repair, limit, cursor }: ReconcileRequest = await request.json().catch(() => ({}));
+    const report = await reconcileSubscriptions({
+      dryRun: !(dryRun === false || repair === true),
+      limit: Math.min(Number(limit) || 200, MAX_LIMIT),
+      cursor: cursor || null,
+    });
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error reconciling tiers with Razorpay subscriptions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to reconcile subscriptions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
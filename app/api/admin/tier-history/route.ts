@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { getTierRepository } from '@/lib/tier-repository';
+
+// Tier transitions for one user, newest first: ?username=919700550849&limit=50
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const username = searchParams.get('username');
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'Username is required' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getTierRepository().getTierHistory(username, limit);
+    if (!entries) {
+      return NextResponse.json(
+        { error: 'User tier not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      username,
+      count: entries.length,
+      entries,
+    });
+  } catch (error) {
+    console.error('Error fetching tier history:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
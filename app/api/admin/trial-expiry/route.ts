@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { expireLapsedTrials } from '@/lib/trials';
+
+interface TrialExpiryRequest {
+  limit?: number;
+}
+
+// Move lapsed trials to NONE - call from a scheduler, e.g. hourly
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { limit }: TrialExpiryRequest = await request.json().catch(() => ({}));
+    const results = await expireLapsedTrials(Math.min(Number(limit) || 100, 500));
+
+    return NextResponse.json({
+      expired: results.filter((result) => result.status === 'expired').length,
+      skipped: results.filter((result) => result.status === 'skipped').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+      results,
+    });
+  } catch (error) {
+    console.error('Error expiring trials:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
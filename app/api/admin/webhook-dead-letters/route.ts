@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminRequest } from '@/lib/admin-auth';
+import { DeadLetterStatus, getDeadLetter, listDeadLetters, markDeadLetterReplay } from '@/lib/webhook-dead-letters';
+import { runWebhookEvent } from '@/lib/webhook-processor';
+import { parseWebhookEvent } from '@/lib/razorpay-events';
+import { verifyWebhookSignature } from '@/lib/razorpay-signature';
+
+interface ReplayRequest {
+  ids: string[];
+}
+
+const DEAD_LETTER_STATUSES: DeadLetterStatus[] = ['pending', 'replayed', 'replay_failed'];
+
+// List dead-lettered webhook events: ?status=pending|replayed|replay_failed|all&limit=50
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const statusParam = searchParams.get('status') || 'pending';
+    const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+
+    if (statusParam !== 'all' && !DEAD_LETTER_STATUSES.includes(statusParam as DeadLetterStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${[...DEAD_LETTER_STATUSES, 'all'].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const deadLetters = await listDeadLetters(statusParam === 'all' ? null : statusParam as DeadLetterStatus, limit);
+
+    return NextResponse.json({
+      count: deadLetters.length,
+      deadLetters,
+    });
+  } catch (error) {
+    console.error('Error listing webhook dead letters:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Replay selected dead-lettered events through the webhook dispatch logic
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { ids }: ReplayRequest = await request.json();
+
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return NextResponse.json(
+        { error: 'ids must be a non-empty array of dead-letter ids' },
+        { status: 400 }
+      );
+    }
+
+    const results = [];
+    // Replay sequentially - events for the same user must apply in order
+    for (const id of ids) {
+      results.push(await replayDeadLetter(id));
+    }
+
+    return NextResponse.json({
+      replayed: results.filter((result) => result.success).length,
+      failed: results.filter((result) => !result.success).length,
+      results,
+    });
+  } catch (error) {
+    console.error('Error replaying webhook dead letters:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to replay webhook events',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+const replayDeadLetter = async (id: string): Promise<{ id: string; success: boolean; message: string }> => {
+  const deadLetter = await getDeadLetter(id);
+  if (!deadLetter) {
+    return { id, success: false, message: 'Dead letter not found' };
+  }
+
+  // Re-verify so a tampered dead-letter document cannot be replayed
+  const signature = deadLetter.headers['x-razorpay-signature'];
+  if (!signature || !verifyWebhookSignature(deadLetter.rawBody, signature)) {
+    console.error('Dead letter signature verification failed', { id, eventId: deadLetter.eventId });
+    await markDeadLetterReplay(id, { success: false, error: 'Signature verification failed' });
+    return { id, success: false, message: 'Signature verification failed' };
+  }
+
+  try {
+    const parsed = parseWebhookEvent(JSON.parse(deadLetter.rawBody));
+    if (!parsed.ok) {
+      throw new Error(`Invalid payload: ${parsed.reason}`);
+    }
+
+    const result = await runWebhookEvent(parsed.event, deadLetter.eventId);
+
+    await markDeadLetterReplay(id, { success: true });
+    console.log('Dead letter replayed', { id, eventId: deadLetter.eventId, status: result.status });
+    return { id, success: true, message: result.message };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Dead letter replay failed', { id, eventId: deadLetter.eventId, error: message });
+    await markDeadLetterReplay(id, { success: false, error: message });
+    return { id, success: false, message };
+  }
+};
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTierRepository } from '@/lib/tier-repository';
+import Razorpay from 'razorpay';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'POST,OPTIONS',
+};
+
+interface CancelScheduledChangeRequest {
+  username: string;
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username }: CancelScheduledChangeRequest = await request.json();
+
+    console.log('Cancel scheduled plan change request:', { username });
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'username is required' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const currentTier = await getTierRepository().getUserTier(username);
+    const subscriptionId = currentTier?.billing?.razorpaySubscriptionId;
+    const pendingChange = currentTier?.billing?.pendingChange;
+    if (!currentTier || !subscriptionId) {
+      return NextResponse.json(
+        { error: 'No subscription found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    if (!pendingChange) {
+      return NextResponse.json(
+        { error: 'No plan change is scheduled' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const razorpay = new Razorpay({
+      key_id: process.env.RAZORPAY_ID!,
+      key_secret: process.env.RAZORPAY_SECRET!,
+    });
+
+    // The subscription stays on its current plan and renews as before
+    const razorpaySubscription = await razorpay.subscriptions.cancelScheduledChanges(subscriptionId);
+
+    // A webhook may have applied or replaced the change while Razorpay was called
+    await getTierRepository().mutateTier(username, (tier) =>
+      tier.billing?.pendingChange?.targetPlanId === pendingChange.targetPlanId
+        ? { updates: { 'billing.pendingChange': null } }
+        : null
+    );
+    await getTierRepository().recordTierHistory(username, {}, {
+      trigger: 'user_request',
+      reason: 'scheduled_change_cancelled',
+      actor: username,
+      note: `Kept the current plan instead of ${pendingChange.targetTier} ${pendingChange.targetRenewalPeriod}`,
+    });
+
+    console.log('Scheduled plan change cancelled:', {
+      username,
+      subscriptionId,
+      targetPlanId: pendingChange.targetPlanId,
+      status: razorpaySubscription.status
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Your scheduled change to ${pendingChange.targetTier} ${pendingChange.targetRenewalPeriod.toLowerCase()} has been cancelled. Your current plan continues.`,
+      cancelledChange: pendingChange,
+      subscription: {
+        id: subscriptionId,
+        status: razorpaySubscription.status,
+        planId: razorpaySubscription.plan_id,
+      },
+    }, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  } catch (error) {
+    console.error('Error cancelling scheduled plan change:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to cancel scheduled plan change',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserTier, cancelUserSubscription } from '@/lib/firebase';
+import { getTierRepository } from '@/lib/tier-repository';
 import Razorpay from 'razorpay';
 
 const corsHeaders = {
@@ -34,7 +34,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify subscription exists
-    const currentTier = await getUserTier(username);
+    const currentTier = await getTierRepository().getUserTier(username);
     if (!currentTier || currentTier.billing?.razorpaySubscriptionId !== subscriptionId) {
       return NextResponse.json(
         { error: 'Subscription not found or mismatch' },
@@ -66,6 +66,12 @@ export async function POST(request: NextRequest) {
     const message = `Subscription cancelled successfully! You can continue using the service until ${endDate}. No further charges will be made.`;
     
     // Note: Database will be updated via webhook when Razorpay sends subscription.cancelled event
+    await getTierRepository().recordTierHistory(username, {}, {
+      trigger: 'user_request',
+      reason: 'cancellation_requested',
+      actor: username,
+      note: `Cancels at the cycle end (${currentTier.billing?.subscriptionEndDate || 'unknown'})`,
+    });
 
     console.log('Razorpay cancellation response:', razorpayCancellation);
 
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlanChangeProration, getProratedUpgradeQuote, PlanChangeRequest, validatePlanChange } from '@/lib/plan-change';
+import { getAvailableChanges } from '@/lib/plan-change-policy';
+import { addBillingPeriods } from '@/lib/proration';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'POST,OPTIONS',
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+// Quote a plan change without touching Razorpay or the database
+export async function POST(request: NextRequest) {
+  try {
+    const { username, targetTier, targetRenewalPeriod }: PlanChangeRequest = await request.json();
+
+    const validation = await validatePlanChange({ username, targetTier, targetRenewalPeriod });
+    if (!validation.ok) {
+      return NextResponse.json(validation.body, { status: validation.status, headers: corsHeaders });
+    }
+
+    const context = validation.context;
+    const proration = getPlanChangeProration(context);
+    const requiresMandate = context.mechanism === 'handover';
+
+    // A handover bills the new plan in full on its own mandate - when the mandate activates, or at the
+    // cycle end when scheduled for it (the same start change-plan gives the new subscription)
+    const cycleEnd = context.billingEndDate ? new Date(context.billingEndDate) : null;
+    const handoverStartAt = context.scheduleChangeAt === 'cycle_end' && cycleEnd && cycleEnd.getTime() > Date.now()
+      ? cycleEnd
+      : null;
+
+    // Cycle-end changes keep the current renewal date and bill the new plan from then on
+    const effectiveAt = requiresMandate
+      ? (handoverStartAt || new Date()).toISOString()
+      : context.scheduleChangeAt === 'cycle_end' ? context.billingEndDate : new Date().toISOString();
+    const handoverChargeNow = requiresMandate && !handoverStartAt ? context.newPlanDetails.amount : 0;
+    const newRenewalDate = requiresMandate
+      ? (handoverStartAt || addBillingPeriods(new Date(), context.targetRenewalPeriod)).toISOString()
+      : proration?.newCycleEnd || context.billingEndDate;
+
+    // The alternative for handover upgrades: pay the rest of this cycle now (create-upgrade-order) and
+    // let the new mandate bill the new plan from the cycle end
+    const proratedQuote = getProratedUpgradeQuote(context);
+    const proratedUpgrade = proratedQuote && proratedQuote.amountDue > 0
+      ? {
+          amountDue: proratedQuote.amountDue,
+          proration: proratedQuote,
+          mandateStartsAt: proratedQuote.currentCycleEnd,
+          mandateAmount: context.newPlanDetails.amount,
+        }
+      : null;
+    const { availableChanges, blockedChanges } = await getAvailableChanges(context.currentTier, context.currentPlanDetails);
+
+    console.log('Plan change preview:', {
+      username,
+      changeType: context.changeType,
+      scheduleChangeAt: context.scheduleChangeAt,
+      newPlanId: context.newPlanId,
+      netAmount: requiresMandate ? handoverChargeNow : proration?.netAmount
+    });
+
+    return NextResponse.json({
+      success: true,
+      preview: true,
+      quotedAt: new Date().toISOString(),
+      changeType: context.changeType,
+      scheduleChangeAt: context.scheduleChangeAt,
+      effectiveAt,
+      fromPlan: {
+        tier: context.currentTierType,
+        renewalPeriod: context.currentRenewalPeriod || 'UNKNOWN',
+        planId: context.currentPlanDetails?.planId || null,
+        amount: context.currentPlanDetails?.amount ?? null,
+      },
+      toPlan: {
+        tier: context.targetTier,
+        renewalPeriod: context.targetRenewalPeriod,
+        planId: context.newPlanId,
+        amount: context.newPlanDetails.amount,
+      },
+      paymentMethod: context.paymentMethod,
+      requiresMandate,
+      // Positive netAmount is charged now, negative is credited - all amounts in paise
+      netAmount: requiresMandate ? handoverChargeNow : proration?.netAmount ?? null,
+      amountDue: requiresMandate ? handoverChargeNow : proration?.amountDue ?? null,
+      creditAmount: requiresMandate ? 0 : proration?.creditAmount ?? null,
+      proration,
+      proratedUpgrade,
+      newRenewalDate,
+      nextInvoice: {
+        amount: context.newPlanDetails.amount,
+        currency: context.newPlanDetails.currency,
+        date: newRenewalDate,
+      },
+      availableChanges,
+      blockedChanges,
+    }, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  } catch (error) {
+    console.error('Error previewing plan change:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to preview plan change',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
@@ -1,18 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPlanDetails, calculateProratedUpgradeCost, getDaysRemainingInCycle, getTotalDaysInCycle, RAZORPAY_PLAN_IDS } from '@/lib/billing-config';
-import { getUserTier, updateUserTier } from '@/lib/firebase';
-import Razorpay from 'razorpay';
-
-// Helper function to get current plan ID based on tier and renewal period
-function getCurrentPlanId(tier: string, renewalPeriod: string): string {
-  if (tier === 'BASIC') {
-    return renewalPeriod === 'ANNUAL' ? RAZORPAY_PLAN_IDS.BASIC_YEARLY : RAZORPAY_PLAN_IDS.BASIC_MONTHLY;
-  } else if (tier === 'PRO') {
-    return renewalPeriod === 'ANNUAL' ? RAZORPAY_PLAN_IDS.PRO_YEARLY : RAZORPAY_PLAN_IDS.PRO_MONTHLY;
-  }
-  
-  return RAZORPAY_PLAN_IDS.BASIC_MONTHLY; // fallback
-}
+import { getCurrentPlanDetails, getPlanChangeProration, PlanChangeRequest, PlanChangeSchedule, validatePlanChange } from '@/lib/plan-change';
+import { ProrationResult } from '@/lib/proration';
+import { getTierRepository, ScheduledPlanChangeInfo } from '@/lib/tier-repository';
+import { PlanDetails } from '@/lib/plan-catalog';
+import { startPlanHandover } from '@/lib/plan-handover';
 
 // Calculate remaining billing cycles for subscription updates
 function calculateRemainingCount(currentTier: any, newPlanDetails: { renewalPeriod: string; tier: string }): number {
@@ -84,12 +75,6 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST,OPTIONS',
 };
 
-interface PlanChangeRequest {
-  username: string;
-  targetTier: "BASIC" | "PRO";
-  targetRenewalPeriod: "MONTHLY" | "ANNUAL";
-}
-
 export async function OPTIONS() {
   return new NextResponse(null, {
     status: 200,
@@ -103,145 +88,25 @@ export async function POST(request: NextRequest) {
 
     console.log('Plan change request:', { username, targetTier, targetRenewalPeriod });
 
-    if (!username || !targetTier || !targetRenewalPeriod) {
-      return NextResponse.json(
-        { error: 'username, targetTier, and targetRenewalPeriod are required' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Determine new plan ID from target tier and renewal period
-    let newPlanId: string;
-    if (targetTier === 'BASIC') {
-      newPlanId = targetRenewalPeriod === 'ANNUAL' ? RAZORPAY_PLAN_IDS.BASIC_YEARLY : RAZORPAY_PLAN_IDS.BASIC_MONTHLY;
-    } else if (targetTier === 'PRO') {
-      newPlanId = targetRenewalPeriod === 'ANNUAL' ? RAZORPAY_PLAN_IDS.PRO_YEARLY : RAZORPAY_PLAN_IDS.PRO_MONTHLY;
-    } else {
-      return NextResponse.json(
-        { error: 'Invalid targetTier. Must be BASIC or PRO' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Get new plan details
-    const newPlanDetails = getPlanDetails(newPlanId);
-    if (!newPlanDetails) {
-      return NextResponse.json(
-        { error: 'Invalid target plan configuration' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Get current user tier to verify subscription
-    const currentTier = await getUserTier(username);
-    if (!currentTier) {
-      return NextResponse.json(
-        { error: 'User tier not found' },
-        { status: 404, headers: corsHeaders }
-      );
-    }
-
-    // Get current subscription ID from database
-    const currentSubscriptionId = currentTier.billing?.razorpaySubscriptionId;
-
-    // Check if user has an active subscription
-    const hasActiveSubscription = Boolean(
-      currentTier.billing && 
-      currentTier.billing.razorpaySubscriptionId &&
-      !currentTier.billing.isCancelled &&
-      (currentTier.tier === 'BASIC' || currentTier.tier === 'PRO')
-    );
-
-    if (!hasActiveSubscription) {
-      return NextResponse.json(
-        { error: 'No active subscription found to change' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Check if it's actually a change
-    const currentTierType = currentTier.tier;
-    const currentRenewalPeriod = currentTier.billing?.renewalPeriod;
-    
-    if (currentTierType === targetTier && currentRenewalPeriod === targetRenewalPeriod) {
-      return NextResponse.json(
-        { error: 'User is already on this plan' },
-        { status: 400, headers: corsHeaders }
-      );
-    }
-
-    // Define all valid plan changes
-    const VALID_PLAN_CHANGES = [
-      // Upgrades
-      { from: { tier: "BASIC", renewalPeriod: "MONTHLY" }, to: { tier: "PRO", renewalPeriod: "MONTHLY" } },
-      { from: { tier: "BASIC", renewalPeriod: "MONTHLY" }, to: { tier: "PRO", renewalPeriod: "ANNUAL" } },
-      { from: { tier: "BASIC", renewalPeriod: "ANNUAL" }, to: { tier: "PRO", renewalPeriod: "MONTHLY" } },
-      { from: { tier: "BASIC", renewalPeriod: "ANNUAL" }, to: { tier: "PRO", renewalPeriod: "ANNUAL" } },
-      // Period changes (same tier, different period)
-      { from: { tier: "BASIC", renewalPeriod: "MONTHLY" }, to: { tier: "BASIC", renewalPeriod: "ANNUAL" } },
-      { from: { tier: "PRO", renewalPeriod: "MONTHLY" }, to: { tier: "PRO", renewalPeriod: "ANNUAL" } },
-      // Downgrades
-      { from: { tier: "PRO", renewalPeriod: "MONTHLY" }, to: { tier: "BASIC", renewalPeriod: "MONTHLY" } },
-      { from: { tier: "PRO", renewalPeriod: "MONTHLY" }, to: { tier: "BASIC", renewalPeriod: "ANNUAL" } },
-      { from: { tier: "PRO", renewalPeriod: "ANNUAL" }, to: { tier: "BASIC", renewalPeriod: "MONTHLY" } },
-      { from: { tier: "PRO", renewalPeriod: "ANNUAL" }, to: { tier: "BASIC", renewalPeriod: "ANNUAL" } },
-      // Period downgrades
-      { from: { tier: "BASIC", renewalPeriod: "ANNUAL" }, to: { tier: "BASIC", renewalPeriod: "MONTHLY" } },
-      { from: { tier: "PRO", renewalPeriod: "ANNUAL" }, to: { tier: "PRO", renewalPeriod: "MONTHLY" } }
-    ];
-
-    // Check if the requested plan change is valid
-    const isValidChange = VALID_PLAN_CHANGES.some(change =>
-      change.from.tier === currentTierType &&
-      change.from.renewalPeriod === currentRenewalPeriod &&
-      change.to.tier === targetTier &&
-      change.to.renewalPeriod === targetRenewalPeriod
-    );
-
-    if (!isValidChange) {
-      // Generate available changes for this user
-      const availableChanges = VALID_PLAN_CHANGES
-        .filter(change => 
-          change.from.tier === currentTierType && 
-          change.from.renewalPeriod === currentRenewalPeriod
-        )
-        .map(change => change.to);
-
-      return NextResponse.json({ 
-        error: 'Invalid plan change',
-        currentPlan: { tier: currentTierType, renewalPeriod: currentRenewalPeriod },
-        targetPlan: { tier: targetTier, renewalPeriod: targetRenewalPeriod },
-        availableChanges
-      }, { status: 400, headers: corsHeaders });
+    // Same checks as the preview route - nothing has been changed yet
+    const validation = await validatePlanChange({ username, targetTier, targetRenewalPeriod });
+    if (!validation.ok) {
+      return NextResponse.json(validation.body, { status: validation.status, headers: corsHeaders });
     }
 
-    // Initialize Razorpay
-    const razorpay = new Razorpay({
-      key_id: process.env.RAZORPAY_ID!,
-      key_secret: process.env.RAZORPAY_SECRET!,
-    });
-
-    const paymentMethod = currentTier.billing?.paymentMethod || 'upi'; // Default to UPI if not specified
-    const billingEndDate = currentTier.billing?.subscriptionEndDate || null;
-
-    // Determine change type for better UX messaging
-    const changeType = determineChangeType(currentTierType, targetTier, currentRenewalPeriod || null, targetRenewalPeriod);
-
-    // Check payment method and route to appropriate flow
-    if (paymentMethod === 'upi') {
-      return NextResponse.json({
-        success: false,
-        error: 'Plan change is not supported for UPI payment method',
-        message: 'Plan change is not supported for this payment method. Please contact support for more details.',
-        data: {
-          paymentMethod: 'upi',
-          supportRequired: true
-        }
-      }, {
-        status: 400,
-        headers: corsHeaders,
-      });
-    }
+    const {
+      currentTier,
+      currentTierType,
+      currentRenewalPeriod,
+      currentSubscriptionId,
+      newPlanId,
+      newPlanDetails,
+      paymentMethod,
+      billingEndDate,
+      changeType,
+      scheduleChangeAt,
+      mechanism,
+    } = validation.context;
 
     // Handle users without razorpaySubscriptionId (create new subscription)
     if (!currentSubscriptionId) {
@@ -258,6 +123,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // UPI mandates cannot be updated in place - hand over to a new subscription
+    if (mechanism === 'handover') {
+      return await handleUPIPlanChange(
+        username,
+        currentSubscriptionId,
+        newPlanId,
+        newPlanDetails,
+        targetTier,
+        targetRenewalPeriod,
+        currentTierType,
+        currentRenewalPeriod || null,
+        changeType,
+        scheduleChangeAt,
+        billingEndDate,
+        corsHeaders
+      );
+    }
+
     // For card/other payment methods: Use unified plan change flow
     console.log('Processing non-UPI plan change with immediate update');
 
@@ -274,6 +157,9 @@ export async function POST(request: NextRequest) {
       paymentMethod as string,
       billingEndDate,
       changeType,
+      scheduleChangeAt,
+      // Itemized proration against the real billing cycle - the same quote the preview showed
+      getPlanChangeProration(validation.context),
       corsHeaders
     );
 
@@ -289,19 +175,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Determine the type of change for better UX messaging
-function determineChangeType(
-  currentTier: string,
-  targetTier: string,
-  currentPeriod: string | null,
-  targetPeriod: string
-): 'upgrade' | 'downgrade' | 'period_change' {
-  if (currentTier !== targetTier) {
-    return currentTier === 'BASIC' && targetTier === 'PRO' ? 'upgrade' : 'downgrade';
-  }
-  return 'period_change';
-}
-
 // Handle card-based plan changes (unified for upgrades/downgrades/period changes)
 async function handleCardPlanChange(
   username: string,
@@ -316,59 +189,107 @@ async function handleCardPlanChange(
   paymentMethod: string,
   billingEndDate: string | null,
   changeType: 'upgrade' | 'downgrade' | 'period_change',
+  scheduleChangeAt: PlanChangeSchedule,
+  proration: ProrationResult | null, // Credits are negative; null for changes scheduled for the cycle end
   corsHeaders: any
 ): Promise<NextResponse> {
   try {
-    // Calculate prorated information for logging
-    let proratedInfo = null;
-    if (billingEndDate) {
-      const subscriptionEndDate = new Date(billingEndDate);
-      const daysRemaining = getDaysRemainingInCycle(subscriptionEndDate);
-      const totalDays = getTotalDaysInCycle(currentTier.billing?.renewalPeriod || "MONTHLY");
-      
-      // Get current plan amount for comparison
-      const currentPlanId = getCurrentPlanId(currentTier.tier, currentTier.billing?.renewalPeriod || "MONTHLY");
-      const currentPlanDetails = getPlanDetails(currentPlanId);
-      const currentPlanAmount = currentPlanDetails?.amount || 0;
-      
-      // Calculate what the user would be charged/credited
-      const proratedChangeCost = calculateProratedUpgradeCost(
-        currentPlanAmount,
-        newPlanDetails.amount,
-        daysRemaining,
-        totalDays
-      );
-      
-      proratedInfo = {
-        currentPlanAmount,
-        newPlanAmount: newPlanDetails.amount,
-        daysRemaining,
-        totalDays,
-        proratedChangeCost,
-        billingEndDate,
-      };
+    const currentPlanDetails = await getCurrentPlanDetails(currentTier);
 
-      console.log('Card plan change prorated calculation:', proratedInfo);
-    }
+    console.log('Card plan change proration:', {
+      username,
+      currentPlanId: currentPlanDetails?.planId,
+      newPlanId,
+      netAmount: proration?.netAmount,
+      lineItems: proration?.lineItems,
+    });
 
-    // Update subscription immediately - Razorpay handles prorating automatically
+    // Upgrades apply now (Razorpay prorates); downgrades and period reductions wait for the cycle end
     const updatedSubscription = await updateRazorpaySubscription(
       currentSubscriptionId,
       newPlanId,
       paymentMethod,
       { renewalPeriod: targetRenewalPeriod, tier: targetTier },
-      currentTier
+      currentTier,
+      scheduleChangeAt
     );
 
+    if (scheduleChangeAt === 'cycle_end') {
+      // Keep the current tier until Razorpay applies the change - the webhook switches it then
+      const pendingChange: ScheduledPlanChangeInfo = {
+        targetTier: targetTier as ScheduledPlanChangeInfo['targetTier'],
+        targetRenewalPeriod: targetRenewalPeriod as ScheduledPlanChangeInfo['targetRenewalPeriod'],
+        targetPlanId: newPlanId,
+        previousPlanId: currentPlanDetails?.planId || null,
+        changeType,
+        requestedAt: new Date().toISOString(),
+        effectiveAt: updatedSubscription.change_scheduled_at
+          ? new Date(updatedSubscription.change_scheduled_at * 1000).toISOString()
+          : billingEndDate,
+      };
+      await getTierRepository().updateUserTierGeneric(username, { 'billing.pendingChange': pendingChange });
+      await getTierRepository().recordTierHistory(username, {
+        tier: pendingChange.targetTier,
+        planId: newPlanId,
+        renewalPeriod: pendingChange.targetRenewalPeriod,
+      }, {
+        trigger: 'user_request',
+        reason: 'plan_change_scheduled',
+        actor: username,
+        note: `${changeType} takes effect at ${pendingChange.effectiveAt || 'the cycle end'}`,
+      });
+
+      console.log(`Card ${changeType} scheduled for cycle end:`, { username, pendingChange });
+
+      return NextResponse.json({
+        success: true,
+        message: `Your plan will change to ${targetTier} ${targetRenewalPeriod.toLowerCase()} at the end of the current billing period`,
+        data: {
+          changeInitiated: pendingChange.requestedAt,
+          fromPlan: {
+            tier: currentTierType,
+            renewalPeriod: currentRenewalPeriod || 'UNKNOWN'
+          },
+          toPlan: {
+            tier: targetTier,
+            renewalPeriod: targetRenewalPeriod
+          },
+          subscriptionId: updatedSubscription.id,
+          razorpayStatus: updatedSubscription.status,
+          paymentMethod: paymentMethod || 'card',
+          changeType,
+          immediateChange: false,
+          effectiveAt: pendingChange.effectiveAt,
+          pendingChange,
+          note: 'The current plan stays active until the change takes effect. No prorated charge applies.'
+        },
+      }, {
+        status: 200,
+        headers: corsHeaders,
+      });
+    }
+
     console.log('Card subscription updated with prorating:', {
       subscriptionId: updatedSubscription.id,
       status: updatedSubscription.status,
       planId: newPlanId,
       changeType,
-      proratedInfo
+      netAmount: proration?.netAmount
     });
 
-    // Update user tier in database immediately - webhook will handle full update
+    // The webhook applies the tier - record what the user asked for and was quoted
+    await getTierRepository().recordTierHistory(username, {
+      tier: targetTier as ScheduledPlanChangeInfo['targetTier'],
+      planId: newPlanId,
+      renewalPeriod: targetRenewalPeriod as ScheduledPlanChangeInfo['targetRenewalPeriod'],
+    }, {
+      trigger: 'user_request',
+      reason: 'plan_change_requested',
+      actor: username,
+      amount: proration?.netAmount ?? null,
+      currency: newPlanDetails.currency || null,
+      note: `${changeType} applied immediately with Razorpay proration`,
+    });
     console.log('Card plan change completed, webhook will update database with subscription details');
 
     console.log(`Card ${changeType} completed for user:`, username);
@@ -397,6 +318,7 @@ async function handleCardPlanChange(
         paymentMethod: paymentMethod || 'card',
         changeType,
         immediateChange: true,
+        proration,
         note: 'Plan change completed. Prorated billing applies.'
       },
     }, {
@@ -416,60 +338,90 @@ async function handleCardPlanChange(
   }
 }
 
-// Simplified UPI plan changes - create new subscription immediately
+// UPI plan changes - create the replacement subscription and return its mandate link.
+// The old subscription keeps running until the new one activates; the webhook cancels it then.
+// Cycle-end changes start the new subscription when the paid cycle ends.
 async function handleUPIPlanChange(
   username: string,
   currentSubscriptionId: string,
   newPlanId: string,
-  newPlanDetails: any,
-  currentTier: any,
-  razorpay: any,
-  billingEndDate: string | null,
+  newPlanDetails: PlanDetails,
+  targetTier: "BASIC" | "PRO",
+  targetRenewalPeriod: "MONTHLY" | "ANNUAL",
+  currentTierType: string,
+  currentRenewalPeriod: string | null,
   changeType: 'upgrade' | 'downgrade' | 'period_change',
+  scheduleChangeAt: PlanChangeSchedule,
+  billingEndDate: string | null,
   corsHeaders: any
 ): Promise<NextResponse> {
   try {
-    console.log(`Starting simplified UPI ${changeType}`);
-    
-    // For UPI payments, create new subscription immediately
-    const newSubscription = await createRazorpaySubscription({
-      planId: newPlanId,
-      planDetails: newPlanDetails,
-      username,
-      razorpayKeyId: process.env.RAZORPAY_ID!,
-      razorpayKeySecret: process.env.RAZORPAY_SECRET!,
-    });
+    const cycleEnd = billingEndDate ? new Date(billingEndDate) : null;
+    const startAt = scheduleChangeAt === 'cycle_end' && cycleEnd && cycleEnd.getTime() > Date.now() ? cycleEnd : null;
+
+    console.log(`Starting UPI ${changeType} handover`, { username, currentSubscriptionId, newPlanId, startAt });
 
-    console.log('New UPI subscription created:', {
-      subscriptionId: newSubscription.id,
-      status: newSubscription.status
+    const handoverStart = await startPlanHandover({
+      userId: username,
+      currentSubscriptionId,
+      plan: newPlanDetails,
+      changeType,
+      startAt,
     });
 
-    // Cancel old subscription
-    if (currentSubscriptionId) {
-      await razorpay.subscriptions.cancel(currentSubscriptionId);
-      console.log('Old subscription cancelled:', currentSubscriptionId);
+    if (!handoverStart.started) {
+      return NextResponse.json({
+        error: 'A plan change is waiting for UPI mandate setup. Complete it before requesting another change.',
+        pendingHandover: handoverStart.handover,
+        paymentUrl: handoverStart.handover.paymentUrl
+      }, { status: 409, headers: corsHeaders });
     }
 
+    const { handover, subscription: newSubscription } = handoverStart;
+
+    await getTierRepository().recordTierHistory(username, {
+      tier: targetTier,
+      planId: newPlanId,
+      renewalPeriod: targetRenewalPeriod,
+    }, {
+      trigger: 'user_request',
+      reason: 'plan_handover_started',
+      actor: username,
+      note: `${changeType} waits for the UPI mandate of ${newSubscription.id}`,
+    });
+
     const changeMessages = {
-      upgrade: `Plan upgrade initiated! Please complete payment setup to activate your ${newPlanDetails.tier} ${newPlanDetails.renewalPeriod.toLowerCase()} plan.`,
-      downgrade: `Plan change initiated! Please complete payment setup to activate your ${newPlanDetails.tier} ${newPlanDetails.renewalPeriod.toLowerCase()} plan.`,
-      period_change: `Billing period change initiated! Please complete payment setup to activate ${newPlanDetails.renewalPeriod.toLowerCase()} billing.`
+      upgrade: `Plan upgrade initiated! Please complete UPI mandate setup to activate your ${targetTier} ${targetRenewalPeriod.toLowerCase()} plan.`,
+      downgrade: `Plan change initiated! Please complete UPI mandate setup to activate your ${targetTier} ${targetRenewalPeriod.toLowerCase()} plan.`,
+      period_change: `Billing period change initiated! Please complete UPI mandate setup to activate ${targetRenewalPeriod.toLowerCase()} billing.`
     };
 
     return NextResponse.json({
       success: true,
       message: changeMessages[changeType],
       data: {
+        changeInitiated: handover.startedAt,
+        fromPlan: {
+          tier: currentTierType,
+          renewalPeriod: currentRenewalPeriod || 'UNKNOWN'
+        },
+        toPlan: {
+          tier: targetTier,
+          renewalPeriod: targetRenewalPeriod
+        },
         subscriptionId: newSubscription.id,
-        status: newSubscription.status,
+        razorpayStatus: newSubscription.status,
         planId: newPlanId,
-        tier: newPlanDetails.tier,
-        renewalPeriod: newPlanDetails.renewalPeriod,
-        paymentUrl: newSubscription.short_url,
+        paymentUrl: handover.paymentUrl,
         paymentMethod: 'upi',
         changeType,
-        requiresAuthentication: true
+        immediateChange: false,
+        requiresAuthentication: true,
+        effectiveAt: handover.startAt || null,
+        pendingHandover: handover,
+        note: handover.startAt
+          ? 'Your current plan stays active until the end of the billing period. The new plan starts billing then.'
+          : 'Your current plan stays active until the new UPI mandate is set up. The old subscription is cancelled once the new one activates.'
       }
     }, {
       status: 200,
@@ -571,7 +523,8 @@ const updateRazorpaySubscription = async (
   newPlanId: string,
   currentPaymentMethod: string,
   newPlanDetails?: { renewalPeriod: string; tier: string },
-  currentTier?: any
+  currentTier?: any,
+  scheduleChangeAt: PlanChangeSchedule = 'now'
 ): Promise<any> => {
   try {
     // UPI subscriptions handled by separate flow
@@ -585,13 +538,19 @@ const updateRazorpaySubscription = async (
     // Update subscription data - only use parameters Razorpay accepts
     const updateData: any = {
       plan_id: newPlanId,           // New plan (target tier)
-      schedule_change_at: "now",    // Critical: immediate effect
+      schedule_change_at: scheduleChangeAt, // "now" prorates immediately, "cycle_end" waits for renewal
       customer_notify: 1            // Send email to customer
     };
 
     // Add remaining_count for plans with different billing periods
     if (newPlanDetails && currentTier) {
-      const remainingCount = calculateRemainingCount(currentTier, newPlanDetails);
+      // A change at the cycle end or to another billing period starts the new plan on a fresh term -
+      // counting the days left in the current cycle would end the subscription a cycle after the change
+      const startsFreshTerm = scheduleChangeAt === 'cycle_end' ||
+        newPlanDetails.renewalPeriod !== currentTier?.billing?.renewalPeriod;
+      const remainingCount = startsFreshTerm
+        ? (newPlanDetails.renewalPeriod === 'MONTHLY' ? 12 : 5)
+        : calculateRemainingCount(currentTier, newPlanDetails);
       updateData.remaining_count = remainingCount;
       
       console.log('Calculated remaining_count for subscription update:', {
@@ -600,6 +559,7 @@ const updateRazorpaySubscription = async (
         currentPeriod: currentTier?.billing?.renewalPeriod,
         targetTier: newPlanDetails.tier,
         targetPeriod: newPlanDetails.renewalPeriod,
+        scheduleChangeAt,
         remainingCount,
         currentEndDate: currentTier?.billing?.currentPeriodEnd || currentTier?.billing?.subscriptionEndDate
       });
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getPlanDetails } from '@/lib/billing-config';
+import { getPlanDetails } from '@/lib/plan-catalog';
+import { getTierRepository, ProratedUpgradeInfo } from '@/lib/tier-repository';
+import { isProratedQuoteValid } from '@/lib/billing-config';
 import https from 'https';
 
 interface CreatePaymentLinkRequest {
@@ -54,7 +56,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Get plan details
-    const planDetails = getPlanDetails(planId);
+    const planDetails = await getPlanDetails(planId);
     if (!planDetails) {
       return NextResponse.json(
         { error: 'Invalid planId' },
@@ -62,6 +64,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Archived plans keep existing subscribers but are not sold any more
+    if (planDetails.status !== 'active') {
+      return NextResponse.json(
+        { error: 'This plan is no longer available' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
     // Get Razorpay credentials from environment
     const razorpayKeyId = process.env.RAZORPAY_ID;
     const razorpayKeySecret = process.env.RAZORPAY_SECRET;
@@ -237,10 +247,29 @@ async function handleProratedPayment(username: string, orderId: string) {
       req.end();
     });
 
+    // Only charge orders this server quoted for this user - a forged or reused order id is rejected
+    const currentTier = await getTierRepository().getUserTier(username);
+    const trackedUpgrade = currentTier?.billing?.pendingUpgrade;
+    const verificationError = verifyProratedOrder(orderResponse, username, trackedUpgrade);
+    if (verificationError || !trackedUpgrade) {
+      console.warn('Rejected prorated order', {
+        username,
+        orderId,
+        reason: verificationError,
+        orderAmount: orderResponse.amount,
+        trackedOrderId: trackedUpgrade?.orderId,
+        trackedAmount: trackedUpgrade?.amount
+      });
+      return NextResponse.json(
+        { error: verificationError || 'No prorated upgrade is waiting for payment' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
     // Create payment link using Razorpay Payment Links API
     const paymentLinkData = {
       amount: orderResponse.amount,
-      currency: 'INR',
+      currency: orderResponse.currency || 'INR',
       accept_partial: false,
       description: `Prorated upgrade payment for ${username}`,
       customer: {
@@ -256,6 +285,8 @@ async function handleProratedPayment(username: string, orderId: string) {
         orderId: orderId,
         username: username,
         type: 'prorated_upgrade',
+        ...(trackedUpgrade.targetTier && { targetTier: trackedUpgrade.targetTier }),
+        ...(trackedUpgrade.targetRenewalPeriod && { targetRenewalPeriod: trackedUpgrade.targetRenewalPeriod }),
       },
       callback_url: `${process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000'}/setup-mandate?username=${username}&proratedAmount=${orderResponse.amount / 100}`,
       callback_method: 'get',
@@ -294,6 +325,25 @@ async function handleProratedPayment(username: string, orderId: string) {
       req.end();
     });
 
+    // Track the link on the upgrade so the payment_link webhook can finalize or roll it back - only
+    // if the upgrade is still the one quoted, since a webhook may have settled it in the meantime
+    const tracked = await getTierRepository().mutateTier(username, (tier) => {
+      const upgrade = tier.billing?.pendingUpgrade;
+      return upgrade?.orderId === orderId && upgrade.status === 'pending'
+        ? { updates: { 'billing.pendingUpgrade.paymentLinkId': paymentLink.id } }
+        : null;
+    });
+    if (!tracked?.applied) {
+      console.warn('Prorated upgrade changed while the payment link was created', { username, orderId, paymentLinkId: paymentLink.id });
+    }
+
+    console.log('Prorated payment link created:', {
+      username,
+      orderId,
+      paymentLinkId: paymentLink.id,
+      amount: orderResponse.amount
+    });
+
     return NextResponse.json({
       success: true,
       paymentLink: paymentLink.short_url,
@@ -311,4 +361,32 @@ async function handleProratedPayment(username: string, orderId: string) {
       { status: 500, headers: corsHeaders }
     );
   }
-}
\ No newline at end of file
+}
+
+// Returns why an order cannot be paid as the user's prorated upgrade, or null when it can
+function verifyProratedOrder(
+  order: { id: string; amount: number; status: string; notes?: Record<string, string> },
+  username: string,
+  trackedUpgrade: ProratedUpgradeInfo | null | undefined
+): string | null {
+  if (!trackedUpgrade || trackedUpgrade.status !== 'pending') {
+    return 'No prorated upgrade is waiting for payment';
+  }
+  if (order.id !== trackedUpgrade.orderId) {
+    return 'Order does not match the quoted upgrade';
+  }
+  if (order.notes?.type !== 'prorated_upgrade' || order.notes?.userId !== username) {
+    return 'Order was not created for this user\'s upgrade';
+  }
+  if (!isProratedQuoteValid(trackedUpgrade.createdAt)) {
+    return 'Upgrade quote has expired - request a new one';
+  }
+  if (order.status === 'paid') {
+    return 'Order has already been paid';
+  }
+  // The amount must be the one this server quoted, not whatever the order claims
+  if (order.amount !== trackedUpgrade.amount) {
+    return 'Order amount does not match the quoted upgrade';
+  }
+  return null;
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import Razorpay from 'razorpay';
+import { getPlanDetails } from '@/lib/plan-catalog';
 
 const razorpay = new Razorpay({
   key_id: process.env.RAZORPAY_ID!,
@@ -10,13 +11,8 @@ export async function POST(request: NextRequest) {
   try {
     const { planId } = await request.json();
 
-    const planPrices: Record<string, number> = {
-      basic: 999,
-      pro: 2999,
-    };
-
-    const price = planPrices[planId];
-    if (!price) {
+    const planDetails = await getPlanDetails(planId);
+    if (!planDetails || planDetails.status !== 'active') {
       return NextResponse.json(
         { error: 'Invalid plan ID' },
         { status: 400 }
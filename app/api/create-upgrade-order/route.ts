@@ -0,0 +1,200 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Razorpay from 'razorpay';
+import { isProratedQuoteValid } from '@/lib/billing-config';
+import { getTierRepository, ProratedUpgradeInfo } from '@/lib/tier-repository';
+import { getProratedUpgradeQuote, PlanChangeRequest, validatePlanChange } from '@/lib/plan-change';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'POST,OPTIONS',
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+// The claimed quote is still the tracked one - nothing resolved or replaced it in between
+const isSameQuote = (tracked: ProratedUpgradeInfo | null | undefined, quote: ProratedUpgradeInfo) =>
+  Boolean(tracked && tracked.status === 'pending' && !tracked.orderId && tracked.createdAt === quote.createdAt);
+
+// Record quote as the user's pending upgrade unless another quote can still be paid
+const claimUpgradeQuote = async (
+  userId: string,
+  quote: ProratedUpgradeInfo
+): Promise<
+  | { claimed: true; previous: ProratedUpgradeInfo | null }
+  | { claimed: false; pendingUpgrade: ProratedUpgradeInfo }
+> => {
+  const result = await getTierRepository().mutateTier(userId, (tierData) => {
+    const tracked = tierData.billing?.pendingUpgrade;
+    return tracked?.status === 'pending' && isProratedQuoteValid(tracked.createdAt)
+      ? null
+      : { updates: { 'billing.pendingUpgrade': quote } };
+  });
+  if (!result) {
+    throw new Error(`No user tier found for userId: ${userId}`);
+  }
+
+  return result.applied
+    ? { claimed: true, previous: result.before.billing?.pendingUpgrade || null }
+    : { claimed: false, pendingUpgrade: result.before.billing!.pendingUpgrade! };
+};
+
+// Put back what the claim replaced when no order could be created for it
+const releaseUpgradeQuote = async (userId: string, quote: ProratedUpgradeInfo, previous: ProratedUpgradeInfo | null) => {
+  await getTierRepository().mutateTier(userId, (tierData) =>
+    isSameQuote(tierData.billing?.pendingUpgrade, quote)
+      ? { updates: { 'billing.pendingUpgrade': previous } }
+      : null
+  ).catch((error) => {
+    console.error('Failed to release prorated upgrade quote', { userId, createdAt: quote.createdAt, error });
+  });
+};
+
+// Quote the prorated cost of an upgrade and create the Razorpay order that charges it.
+// The order is recorded as the user's pending upgrade, which is what payment links and the
+// webhook check against - the client only ever passes the order id back.
+export async function POST(request: NextRequest) {
+  try {
+    const { username, targetTier, targetRenewalPeriod }: PlanChangeRequest = await request.json();
+
+    console.log('Create upgrade order request:', { username, targetTier, targetRenewalPeriod });
+
+    const validation = await validatePlanChange({ username, targetTier, targetRenewalPeriod });
+    if (!validation.ok) {
+      return NextResponse.json(validation.body, { status: validation.status, headers: corsHeaders });
+    }
+
+    const context = validation.context;
+    if (context.changeType !== 'upgrade') {
+      return NextResponse.json(
+        { error: 'Prorated orders are only created for upgrades', changeType: context.changeType },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Subscriptions Razorpay can update in place prorate the change itself through change-plan -
+    // a separate order would charge the customer twice
+    if (context.mechanism !== 'handover') {
+      return NextResponse.json(
+        {
+          error: 'Prorated orders are only created for plan changes that replace the mandate',
+          paymentMethod: context.paymentMethod,
+          mechanism: context.mechanism
+        },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // Only the current cycle - setup-new-subscription starts the new mandate at its end
+    const proration = getProratedUpgradeQuote(context);
+
+    if (!proration || proration.amountDue <= 0) {
+      return NextResponse.json(
+        { error: 'Nothing to charge for this upgrade', proration },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // One payable quote at a time, so the customer cannot pay for the same upgrade twice. The slot is
+    // claimed before the order exists - a concurrent request gets the 409 instead of a second order.
+    const quote: ProratedUpgradeInfo = {
+      orderId: '', // Filled in once Razorpay created the order
+      paymentLinkId: null,
+      amount: proration.amountDue,
+      status: 'pending',
+      targetTier: context.targetTier,
+      targetRenewalPeriod: context.targetRenewalPeriod,
+      previousTier: context.currentTierType,
+      paymentId: null,
+      subscriptionId: context.currentSubscriptionId,
+      paidThrough: null,
+      createdAt: new Date().toISOString(),
+      resolvedAt: null,
+    };
+    const claim = await claimUpgradeQuote(username, quote);
+    if (!claim.claimed) {
+      return NextResponse.json({
+        error: 'A prorated upgrade is already waiting for payment',
+        pendingUpgrade: claim.pendingUpgrade
+      }, { status: 409, headers: corsHeaders });
+    }
+
+    const razorpay = new Razorpay({
+      key_id: process.env.RAZORPAY_ID!,
+      key_secret: process.env.RAZORPAY_SECRET!,
+    });
+
+    let order;
+    try {
+      order = await razorpay.orders.create({
+        amount: proration.amountDue,
+        currency: context.newPlanDetails.currency,
+        receipt: `upg_${Date.now()}`,
+        notes: {
+          userId: username,
+          type: 'prorated_upgrade',
+          targetTier: context.targetTier,
+          targetRenewalPeriod: context.targetRenewalPeriod,
+          targetPlanId: context.newPlanId,
+          fromPlanId: context.currentPlanDetails?.planId || '',
+        },
+      });
+    } catch (error) {
+      // Give the slot back so the customer can ask for a fresh quote right away
+      await releaseUpgradeQuote(username, quote, claim.previous);
+      throw error;
+    }
+
+    const pendingUpgrade: ProratedUpgradeInfo = { ...quote, orderId: order.id };
+    const recorded = await getTierRepository().mutateTier(username, (tierData) =>
+      isSameQuote(tierData.billing?.pendingUpgrade, quote)
+        ? { updates: { 'billing.pendingUpgrade': pendingUpgrade } }
+        : null
+    );
+    if (!recorded?.applied) {
+      // The webhook only honours the tracked order - never hand out one it would ignore
+      console.warn('Prorated upgrade quote replaced before its order was recorded', { username, orderId: order.id });
+      return NextResponse.json({
+        error: 'A prorated upgrade is already waiting for payment',
+        pendingUpgrade: recorded?.after.billing?.pendingUpgrade || null
+      }, { status: 409, headers: corsHeaders });
+    }
+
+    console.log('Prorated upgrade order created:', {
+      username,
+      orderId: order.id,
+      amount: proration.amountDue,
+      targetTier: context.targetTier,
+      targetRenewalPeriod: context.targetRenewalPeriod
+    });
+
+    return NextResponse.json({
+      success: true,
+      orderId: order.id,
+      amount: proration.amountDue, // in paise
+      currency: order.currency,
+      keyId: process.env.RAZORPAY_ID, // Razorpay Checkout needs the public key id with the order
+      targetTier: context.targetTier,
+      targetRenewalPeriod: context.targetRenewalPeriod,
+      proration,
+      pendingUpgrade,
+    }, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  } catch (error) {
+    console.error('Error creating upgrade order:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create upgrade order',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
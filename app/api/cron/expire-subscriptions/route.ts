@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobCaller } from '@/lib/admin-auth';
+import { runExpirySweep } from '@/lib/expiry-sweeper';
+
+// Downgrade users whose cancelled subscription, suspended grace period or trial has ended.
+// GET so a platform scheduler (e.g. Vercel Cron) can call it: ?limit=100
+export async function GET(request: NextRequest) {
+  const caller = getJobCaller(request);
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Number(searchParams.get('limit')) || 100, 500);
+
+    const run = await runExpirySweep({ limit, trigger: caller });
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Error running expiry sweep:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
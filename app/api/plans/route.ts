@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { getPlanCatalog, getRazorpayMode, PublicPlan, toPublicPlan } from '@/lib/plan-catalog';
+
+// Plans currently on sale, in catalog order, with Razorpay plan IDs for the configured mode
+export async function GET() {
+  try {
+    const { plans } = await getPlanCatalog();
+
+    return NextResponse.json({
+      mode: getRazorpayMode(),
+      plans: plans.map(toPublicPlan).filter((plan): plan is PublicPlan => plan !== null),
+    });
+  } catch (error) {
+    console.error('Error fetching plan catalog:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
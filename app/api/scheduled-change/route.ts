@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTierRepository } from '@/lib/tier-repository';
+import Razorpay from 'razorpay';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,OPTIONS',
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+// The plan change waiting for the cycle end, as recorded locally and as Razorpay has it queued
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const username = searchParams.get('username');
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'Username is required' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const currentTier = await getTierRepository().getUserTier(username);
+    if (!currentTier) {
+      return NextResponse.json(
+        { error: 'User tier not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const pendingChange = currentTier.billing?.pendingChange || null;
+    const subscriptionId = currentTier.billing?.razorpaySubscriptionId || null;
+
+    // Razorpay answers with an error when nothing is scheduled, so a failure here just means no update
+    let razorpayPendingUpdate = null;
+    if (subscriptionId) {
+      const razorpay = new Razorpay({
+        key_id: process.env.RAZORPAY_ID!,
+        key_secret: process.env.RAZORPAY_SECRET!,
+      });
+
+      razorpayPendingUpdate = await razorpay.subscriptions.pendingUpdate(subscriptionId).catch((error) => {
+        console.log('No pending update on Razorpay:', {
+          subscriptionId,
+          error: error?.error?.description || error?.message
+        });
+        return null;
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      username,
+      subscriptionId,
+      hasScheduledChange: Boolean(pendingChange),
+      pendingChange,
+      razorpayPendingUpdate: razorpayPendingUpdate && {
+        planId: razorpayPendingUpdate.plan_id,
+        status: razorpayPendingUpdate.status,
+        changeScheduledAt: razorpayPendingUpdate.change_scheduled_at
+          ? new Date(razorpayPendingUpdate.change_scheduled_at * 1000).toISOString()
+          : null,
+      },
+    }, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  } catch (error) {
+    console.error('Error fetching scheduled plan change:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch scheduled plan change',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
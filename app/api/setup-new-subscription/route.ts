@@ -0,0 +1,288 @@
+import { NextRequest, NextResponse } from 'next/server';
+import Razorpay from 'razorpay';
+import { isPendingMandateInFlight, isPlanHandoverInFlight, PLAN_HANDOVER_LINK_HOURS } from '@/lib/billing-config';
+import { getTierRepository, PendingMandateInfo } from '@/lib/tier-repository';
+import { findPlan, PlanDetails } from '@/lib/plan-catalog';
+import { getCurrentPlanDetails, PlanChangeRequest, PlanChangeType, validatePlanChange } from '@/lib/plan-change';
+import { classifyPlanChange, getPaymentMethodPolicy } from '@/lib/plan-change-policy';
+import { startPlanHandover } from '@/lib/plan-handover';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'POST,OPTIONS',
+};
+
+interface SetupNewSubscriptionRequest {
+  username: string;
+  targetTier?: "BASIC" | "PRO";
+  targetRenewalPeriod?: "MONTHLY" | "ANNUAL";
+  afterProratedPayment?: boolean; // Called from the prorated payment callback - wait for the upgrade to be confirmed
+}
+
+// Subscription states that still charge the customer on their current mandate
+const RUNNING_SUBSCRIPTION_STATUSES = ['authenticated', 'active', 'pending'];
+
+const existingMandateResponse = (mandate: PendingMandateInfo) => NextResponse.json({
+  success: true,
+  existing: true,
+  message: 'Your new mandate is already waiting for setup',
+  paymentLink: mandate.paymentUrl,
+  subscriptionId: mandate.subscriptionId,
+  startAt: null,
+}, { status: 200, headers: corsHeaders });
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+// Create a fresh recurring mandate for the user's target plan - the plan of a paid prorated upgrade,
+// a plan change the policy hands over to a new mandate, or their current plan. A running subscription
+// is replaced through a handover that starts the new one at the end of the cycle the customer has
+// already paid for.
+export async function POST(request: NextRequest) {
+  try {
+    const { username, targetTier, targetRenewalPeriod, afterProratedPayment }: SetupNewSubscriptionRequest = await request.json();
+
+    console.log('Setup new subscription request:', { username, targetTier, targetRenewalPeriod, afterProratedPayment });
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'username is required' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const currentTier = await getTierRepository().getUserTier(username);
+    if (!currentTier) {
+      return NextResponse.json(
+        { error: 'User tier not found' },
+        { status: 404, headers: corsHeaders }
+      );
+    }
+
+    const billing = currentTier.billing;
+
+    // Reloading the callback page must not create a second mandate
+    if (isPlanHandoverInFlight(billing?.pendingHandover)) {
+      return NextResponse.json({
+        success: true,
+        existing: true,
+        message: 'Your new mandate is already waiting for setup',
+        paymentLink: billing.pendingHandover.paymentUrl,
+        subscriptionId: billing.pendingHandover.newSubscriptionId,
+        startAt: billing.pendingHandover.startAt || null,
+      }, { status: 200, headers: corsHeaders });
+    }
+
+    // Same for a new subscription created when nothing was running
+    if (isPendingMandateInFlight(billing?.pendingMandate)) {
+      return existingMandateResponse(billing.pendingMandate);
+    }
+
+    const pendingUpgrade = billing?.pendingUpgrade;
+    if (afterProratedPayment && pendingUpgrade?.status === 'pending') {
+      // The payment_link.paid webhook has not landed yet - the page retries shortly
+      return NextResponse.json(
+        { error: 'Your payment is still being confirmed', retryable: true },
+        { status: 409, headers: corsHeaders }
+      );
+    }
+
+    const paidUpgrade = pendingUpgrade?.status === 'paid' ? pendingUpgrade : null;
+    const isPaidUpgradeTarget = Boolean(paidUpgrade &&
+      (!targetTier || targetTier === paidUpgrade.targetTier) &&
+      (!targetRenewalPeriod || targetRenewalPeriod === paidUpgrade.targetRenewalPeriod));
+
+    let plan: PlanDetails | null;
+    let changeType: PlanChangeType | null = null;
+    if ((targetTier || targetRenewalPeriod) && !isPaidUpgradeTarget) {
+      // Any other plan the client asks for is a plan change - the same policy as change-plan decides,
+      // and only changes that replace the mandate are set up here
+      const validation = await validatePlanChange({ username, targetTier, targetRenewalPeriod } as PlanChangeRequest);
+      if (!validation.ok) {
+        return NextResponse.json(validation.body, { status: validation.status, headers: corsHeaders });
+      }
+      if (validation.context.mechanism !== 'handover') {
+        return NextResponse.json(
+          {
+            error: 'This plan change is applied to the running subscription - use change-plan instead',
+            paymentMethod: validation.context.paymentMethod,
+            mechanism: validation.context.mechanism
+          },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      plan = validation.context.newPlanDetails;
+      changeType = validation.context.changeType;
+    } else {
+      const planTier = paidUpgrade?.targetTier || currentTier.tier;
+      const planPeriod = paidUpgrade?.targetRenewalPeriod || billing?.renewalPeriod;
+      if ((planTier !== 'BASIC' && planTier !== 'PRO') || !planPeriod) {
+        return NextResponse.json(
+          { error: 'No plan to set up a subscription for' },
+          { status: 400, headers: corsHeaders }
+        );
+      }
+      plan = await findPlan(planTier, planPeriod);
+    }
+
+    if (!plan) {
+      return NextResponse.json(
+        { error: 'This plan is no longer available' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const currentSubscriptionId = billing?.razorpaySubscriptionId || null;
+    const isRunning = Boolean(
+      currentSubscriptionId &&
+      !billing?.isCancelled &&
+      RUNNING_SUBSCRIPTION_STATUSES.includes(billing?.status || 'active')
+    );
+
+    // Subscriptions Razorpay can update in place are never replaced by a second mandate
+    const paymentMethod = billing?.paymentMethod || 'upi'; // Same default as validatePlanChange
+    if (isRunning && getPaymentMethodPolicy(paymentMethod).mechanism !== 'handover') {
+      return NextResponse.json(
+        { error: 'Your subscription is changed in place - no new mandate is needed', paymentMethod },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    if (isRunning && currentSubscriptionId) {
+      // The customer already paid up to the cycle end - the new mandate starts charging from there
+      const cycleEnd = billing?.subscriptionEndDate ? new Date(billing.subscriptionEndDate) : null;
+      const startAt = cycleEnd && cycleEnd.getTime() > Date.now() ? cycleEnd : null;
+
+      // Classify against the plan the running subscription is billed at - before any paid upgrade -
+      // the same way the policy does
+      const previousTier = paidUpgrade?.previousTier || currentTier.tier;
+      const previousPlan = await getCurrentPlanDetails(currentTier);
+
+      const handoverStart = await startPlanHandover({
+        userId: username,
+        currentSubscriptionId,
+        plan,
+        changeType: changeType || classifyPlanChange({ tier: previousTier, plan: previousPlan }, plan),
+        startAt,
+      });
+
+      if (handoverStart.started) {
+        await getTierRepository().recordTierHistory(username, {
+          tier: plan.tier,
+          planId: plan.planId,
+          renewalPeriod: plan.renewalPeriod,
+        }, {
+          trigger: 'user_request',
+          reason: 'mandate_setup_started',
+          actor: username,
+          note: `New mandate ${handoverStart.handover.newSubscriptionId}${startAt ? ` starts ${startAt.toISOString()}` : ''}`,
+        });
+      }
+
+      console.log('Mandate handover started:', {
+        username,
+        started: handoverStart.started,
+        subscriptionId: handoverStart.handover.newSubscriptionId,
+        startAt: handoverStart.handover.startAt
+      });
+
+      return NextResponse.json({
+        success: true,
+        existing: !handoverStart.started,
+        message: startAt
+          ? `Set up your UPI mandate. ${plan.displayName} billing starts on ${startAt.toLocaleDateString()}.`
+          : `Set up your UPI mandate to activate ${plan.displayName}.`,
+        paymentLink: handoverStart.handover.paymentUrl,
+        subscriptionId: handoverStart.handover.newSubscriptionId,
+        startAt: handoverStart.handover.startAt || null,
+        planDetails: {
+          tier: plan.tier,
+          renewalPeriod: plan.renewalPeriod,
+          amount: plan.amount,
+        },
+      }, { status: 200, headers: corsHeaders });
+    }
+
+    // Nothing left to replace - a plain new subscription, recorded so a reload or double submit
+    // returns this mandate instead of creating another
+    const razorpay = new Razorpay({
+      key_id: process.env.RAZORPAY_ID!,
+      key_secret: process.env.RAZORPAY_SECRET!,
+    });
+
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + PLAN_HANDOVER_LINK_HOURS * 60 * 60 * 1000);
+    const subscription = await razorpay.subscriptions.create({
+      plan_id: plan.planId,
+      total_count: plan.renewalPeriod === 'MONTHLY' ? 12 : 5,
+      quantity: 1,
+      customer_notify: true,
+      expire_by: Math.floor(expiresAt.getTime() / 1000),
+      notes: {
+        userId: username,
+        tier: plan.tier,
+        renewalPeriod: plan.renewalPeriod,
+      },
+    });
+
+    const mandate: PendingMandateInfo = {
+      subscriptionId: subscription.id,
+      planId: plan.planId,
+      targetTier: plan.tier,
+      targetRenewalPeriod: plan.renewalPeriod,
+      paymentUrl: subscription.short_url || null,
+      createdAt: createdAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+    const claim = await getTierRepository().mutateTier(username, (tierData) =>
+      isPendingMandateInFlight(tierData.billing?.pendingMandate)
+        ? null
+        : { updates: { 'billing.pendingMandate': mandate } }
+    );
+    if (!claim?.applied) {
+      // A concurrent request won - drop this subscription so only one new mandate can exist
+      await razorpay.subscriptions.cancel(subscription.id).catch((error) => {
+        console.error('Failed to cancel duplicate mandate subscription', { subscriptionId: subscription.id, error });
+      });
+      const existingMandate = claim?.after.billing?.pendingMandate;
+      if (!existingMandate) {
+        throw new Error(`No user tier found for userId: ${username}`);
+      }
+      return existingMandateResponse(existingMandate);
+    }
+
+    console.log('New subscription created for mandate setup:', {
+      username,
+      subscriptionId: subscription.id,
+      planId: plan.planId
+    });
+
+    return NextResponse.json({
+      success: true,
+      existing: false,
+      message: `Set up your UPI mandate to activate ${plan.displayName}.`,
+      paymentLink: mandate.paymentUrl,
+      subscriptionId: subscription.id,
+      startAt: null,
+      planDetails: {
+        tier: plan.tier,
+        renewalPeriod: plan.renewalPeriod,
+        amount: plan.amount,
+      },
+    }, { status: 200, headers: corsHeaders });
+  } catch (error) {
+    console.error('Error setting up new subscription:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to setup new subscription',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
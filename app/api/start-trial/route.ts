@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TRIAL_DAYS } from '@/lib/billing-config';
+import { startTrial } from '@/lib/trials';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'POST,OPTIONS',
+};
+
+interface StartTrialRequest {
+  username: string;
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+// Start the user's one free trial
+export async function POST(request: NextRequest) {
+  try {
+    const { username }: StartTrialRequest = await request.json();
+
+    console.log('Start trial request:', { username });
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'username is required' },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    const result = await startTrial(username);
+
+    if (!result.started) {
+      return NextResponse.json(
+        {
+          error: result.reason === 'trial_used'
+            ? 'The free trial has already been used for this account'
+            : 'A subscription is already active for this account',
+          code: result.reason,
+          tier: result.tier.tier,
+          trialStartDate: result.tier.billing?.trialStartDate || null,
+          trialEndDate: result.tier.billing?.trialEndDate || null,
+        },
+        { status: 409, headers: corsHeaders }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Your ${TRIAL_DAYS}-day free trial has started`,
+      trial: {
+        tier: result.tier.tier,
+        days: TRIAL_DAYS,
+        startDate: result.tier.billing?.trialStartDate,
+        endDate: result.tier.billing?.trialEndDate,
+      },
+    }, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  } catch (error) {
+    console.error('Error starting trial:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to start trial',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500, headers: corsHeaders }
+    );
+  }
+}
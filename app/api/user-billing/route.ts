@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getUserBilling } from '@/lib/firebase';
+import { getTierRepository, getUserBilling } from '@/lib/tier-repository';
+import { getPlanChangeOptions } from '@/lib/plan-change';
 
 export async function GET(request: NextRequest) {
   try {
@@ -27,7 +28,14 @@ export async function GET(request: NextRequest) {
 
     console.log('Found user billing:', userBilling);
 
-    return NextResponse.json(userBilling);
+    // Same policy the change-plan route enforces, so clients only offer changes that will be accepted
+    const { availableChanges, blockedChanges } = await getPlanChangeOptions(await getTierRepository().getUserTier(username));
+
+    return NextResponse.json({
+      ...userBilling,
+      availableChanges,
+      blockedChanges,
+    });
   } catch (error) {
     console.error('Error fetching user billing:', error);
     return NextResponse.json(
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserPayments } from '@/lib/payments';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const username = searchParams.get('username');
+
+    if (!username) {
+      return NextResponse.json(
+        { error: 'Username is required' },
+        { status: 400 }
+      );
+    }
+
+    console.log('Fetching payments for username:', username);
+
+    const payments = await getUserPayments(username);
+
+    return NextResponse.json({
+      username,
+      payments,
+    });
+  } catch (error) {
+    console.error('Error fetching user payments:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
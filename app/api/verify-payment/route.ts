@@ -1,38 +1,99 @@
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
+import {
+  verifyOrderCheckoutSignature,
+  verifyPaymentLinkSignature,
+  verifySubscriptionCheckoutSignature,
+} from '@/lib/razorpay-signature';
+
+interface VerifyPaymentRequest {
+  razorpay_payment_id: string;
+  razorpay_signature: string;
+  // Subscription checkout
+  razorpay_subscription_id?: string;
+  // Order checkout
+  razorpay_order_id?: string;
+  // Payment link callback
+  razorpay_payment_link_id?: string;
+  razorpay_payment_link_reference_id?: string;
+  razorpay_payment_link_status?: string;
+}
 
 export async function POST(request: NextRequest) {
   try {
     const {
       razorpay_payment_id,
-      razorpay_subscription_id,
       razorpay_signature,
-    } = await request.json();
+      razorpay_subscription_id,
+      razorpay_order_id,
+      razorpay_payment_link_id,
+      razorpay_payment_link_reference_id,
+      razorpay_payment_link_status,
+    }: VerifyPaymentRequest = await request.json();
+
+    if (!razorpay_payment_id || !razorpay_signature) {
+      return NextResponse.json(
+        { error: 'razorpay_payment_id and razorpay_signature are required' },
+        { status: 400 }
+      );
+    }
 
-    const body = razorpay_payment_id + '|' + razorpay_subscription_id;
-    
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_SECRET!)
-      .update(body.toString())
-      .digest('hex');
+    // Each checkout flow signs a different payload
+    let flow: 'subscription' | 'order' | 'payment_link';
+    let isAuthentic: boolean;
 
-    const isAuthentic = expectedSignature === razorpay_signature;
+    if (razorpay_payment_link_id) {
+      flow = 'payment_link';
+      isAuthentic = Boolean(razorpay_payment_link_status) && verifyPaymentLinkSignature({
+        paymentLinkId: razorpay_payment_link_id,
+        referenceId: razorpay_payment_link_reference_id || null,
+        status: razorpay_payment_link_status || '',
+        paymentId: razorpay_payment_id,
+        signature: razorpay_signature,
+      });
+    } else if (razorpay_subscription_id) {
+      flow = 'subscription';
+      isAuthentic = verifySubscriptionCheckoutSignature({
+        paymentId: razorpay_payment_id,
+        subscriptionId: razorpay_subscription_id,
+        signature: razorpay_signature,
+      });
+    } else if (razorpay_order_id) {
+      flow = 'order';
+      isAuthentic = verifyOrderCheckoutSignature({
+        orderId: razorpay_order_id,
+        paymentId: razorpay_payment_id,
+        signature: razorpay_signature,
+      });
+    } else {
+      return NextResponse.json(
+        { error: 'One of razorpay_subscription_id, razorpay_order_id or razorpay_payment_link_id is required' },
+        { status: 400 }
+      );
+    }
 
     if (isAuthentic) {
       console.log('Payment verified successfully:', {
+        flow,
         payment_id: razorpay_payment_id,
         subscription_id: razorpay_subscription_id,
+        order_id: razorpay_order_id,
+        payment_link_id: razorpay_payment_link_id,
         timestamp: new Date().toISOString(),
       });
 
       return NextResponse.json({
         message: 'Payment verified successfully',
         verified: true,
+        flow,
+        ...(razorpay_payment_link_status && { paymentLinkStatus: razorpay_payment_link_status }),
       });
     } else {
       console.error('Payment verification failed:', {
+        flow,
         payment_id: razorpay_payment_id,
         subscription_id: razorpay_subscription_id,
+        order_id: razorpay_order_id,
+        payment_link_id: razorpay_payment_link_id,
         timestamp: new Date().toISOString(),
       });
 
@@ -48,4 +109,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
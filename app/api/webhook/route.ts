@@ -1,54 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { updateUserTier, getTierById } from '@/lib/firebase';
-import { getPlanDetails } from '@/lib/billing-config';
-import { BillingInfo } from '@/lib/firebase';
-
-interface RazorpayWebhookEvent {
-  entity: string;
-  account_id: string;
-  event: string;
-  contains: string[];
-  payload: {
-    subscription: {
-      entity: {
-        id: string;
-        entity: string;
-        plan_id: string;
-        customer_id?: string;
-        status: string;
-        current_start: number;
-        current_end: number;
-        ended_at?: number;
-        quantity: number;
-        notes: {
-          userId?: string;
-          tier?: string;
-          renewalPeriod?: string;
-        };
-        charge_at: number;
-        start_at: number;
-        end_at?: number;
-        auth_attempts: number;
-        total_count: number;
-        paid_count: number;
-        customer_notify: boolean;
-        created_at: number;
-        expire_by?: number;
-        short_url: string;
-        has_scheduled_changes: boolean;
-        change_scheduled_at?: number;
-        remaining_count: number;
-        payment_method?: string; // Payment method used (upi, card, netbanking, wallet, etc.)
-      };
-    };
-  };
-  created_at: number;
-}
+import { runWebhookEvent } from '@/lib/webhook-processor';
+import { parseWebhookEvent, RazorpayWebhookEvent } from '@/lib/razorpay-events';
+import { verifyWebhookSignature } from '@/lib/razorpay-signature';
+import { recordDeadLetter } from '@/lib/webhook-dead-letters';
 
 export async function POST(request: NextRequest) {
+  let body: string | null = null;
+  let webhookData: RazorpayWebhookEvent | null = null;
+
   try {
-    const body = await request.text();
+    body = await request.text();
     const signature = request.headers.get('x-razorpay-signature');
 
     if (!signature) {
@@ -58,12 +19,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_WEBHOOK_SECRET!)
-      .update(body)
-      .digest('hex');
-
-    if (signature !== expectedSignature) {
+    if (!verifyWebhookSignature(body, signature)) {
       console.error('Webhook signature verification failed');
       return NextResponse.json(
         { error: 'Invalid signature' },
@@ -80,9 +36,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Parse webhook payload with error handling
-    let webhookData: RazorpayWebhookEvent;
+    let decoded: unknown;
     try {
-      webhookData = JSON.parse(body);
+      decoded = JSON.parse(body);
     } catch (parseError) {
       console.error('Failed to parse webhook JSON payload', { 
         error: parseError instanceof Error ? parseError.message : 'Unknown parse error',
@@ -94,99 +50,27 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const { event: eventType, payload } = webhookData;
-    
-    // Validate payload structure
-    if (!payload?.subscription?.entity) {
-      console.error('Invalid webhook payload structure - missing subscription entity', { 
-        eventType,
-        hasPayload: !!payload,
-        hasSubscription: !!payload?.subscription,
-        hasEntity: !!payload?.subscription?.entity
+    // Reject unexpected shapes here instead of failing halfway through an update
+    const parsed = parseWebhookEvent(decoded);
+    if (!parsed.ok) {
+      console.error('Rejected webhook payload', {
+        eventType: parsed.eventType,
+        reason: parsed.reason,
+        eventId: request.headers.get('x-razorpay-event-id'),
+        bodyPreview: body.substring(0, 200)
       });
       return NextResponse.json({ 
         status: 'ignored', 
-        message: 'Invalid payload structure' 
+        message: `Invalid payload: ${parsed.reason}` 
       });
     }
-    
-    const subscription = payload.subscription.entity;
-
-    console.log('Processing Razorpay event', {
-      eventType,
-      subscriptionId: subscription.id,
-      planId: subscription.plan_id,
-      status: subscription.status
-    });
-    console.log("=".repeat(40))
-    console.log("webhook payload:"+eventType)
-    console.log(payload)
-    console.log("=".repeat(40))
+    webhookData = parsed.event;
 
-    // Extract user ID from subscription notes
-    let userId = subscription.notes?.userId;
-    if (!userId) {
-      console.error('No userId found in subscription notes', { subscriptionId: subscription.id });
-      return NextResponse.json({ 
-        status: 'success', 
-        message: 'No userId in subscription notes' 
-      });
-    }
-    
-    // Remove USER# prefix if it exists in the notes (clean the userId)
-    if (userId.startsWith('USER#')) {
-      userId = userId.replace('USER#', '');
-    }
-    
-    console.log('Cleaned userId for processing', { originalUserId: subscription.notes?.userId, cleanedUserId: userId });
-
-    // Get plan details
-    const planDetails = getPlanDetails(subscription.plan_id);
-    if (!planDetails) {
-      console.error('Unknown plan ID', { planId: subscription.plan_id });
-      return NextResponse.json({ 
-        status: 'success', 
-        message: 'Unknown plan ID' 
-      });
-    }
-
-    // Handle different subscription events
-    switch (eventType) {
-      case 'subscription.activated':
-        // Subscription activated - send confirmation message (first event when subscription starts)
-        await handleSubscriptionActivated(userId, subscription, planDetails);
-        break;
-        
-      case 'subscription.completed':
-      case 'subscription.charged':
-      case 'subscription.authenticated':
-      case 'subscription.resumed':
-        // Subscription status updated but don't send confirmation message
-        await handleSubscriptionActivatedSilent(userId, subscription, planDetails);
-        break;
-        
-      case 'subscription.cancelled':
-        // Subscription cancelled
-        await handleSubscriptionCancelled(userId, subscription);
-        break;
-        
-      case 'subscription.updated':
-        // Subscription updated (plan change, etc.)
-        await handleSubscriptionUpdated(userId, subscription, planDetails);
-        break;
-        
-      case 'subscription.pending':
-        // Payment pending - don't change user status yet
-        console.log('Subscription payment pending', { userId, subscriptionId: subscription.id });
-        break;
-        
-      default:
-        console.log('Unhandled webhook event', { eventType });
-    }
+    const result = await runWebhookEvent(webhookData, request.headers.get('x-razorpay-event-id'));
 
     return NextResponse.json({ 
       status: 'success',
-      message: 'Webhook processed successfully'
+      message: result.message
     });
 
   } catch (error) {
@@ -194,6 +78,36 @@ export async function POST(request: NextRequest) {
       message: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined
     });
+
+    // Only verified, parsed events reach the handlers - keep them for replay
+    if (body && webhookData) {
+      try {
+        const deadLetterId = await recordDeadLetter({
+          rawBody: body,
+          headers: Object.fromEntries(request.headers.entries()),
+          eventId: request.headers.get('x-razorpay-event-id'),
+          eventType: webhookData.event || null,
+          error,
+        });
+
+        return NextResponse.json({ 
+          status: 'error',
+          message: 'Webhook processing failed but acknowledged',
+          deadLetterId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          timestamp: new Date().toISOString()
+        });
+      } catch (deadLetterError) {
+        // Nothing was persisted - let Razorpay retry the delivery
+        console.error('Failed to store webhook in dead-letter collection', {
+          message: deadLetterError instanceof Error ? deadLetterError.message : 'Unknown error'
+        });
+        return NextResponse.json(
+          { status: 'error', message: 'Webhook processing failed', timestamp: new Date().toISOString() },
+          { status: 500 }
+        );
+      }
+    }
     
     return NextResponse.json({ 
       status: 'error',
@@ -203,224 +117,3 @@ export async function POST(request: NextRequest) {
     });
   }
 }
-
-// Handle subscription activation/payment success with confirmation message
-const handleSubscriptionActivated = async (
-  userId: string, 
-  subscription: any, 
-  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" }
-) => {
-  // Check if confirmation was already sent BEFORE updating subscription status
-  const existingTier = await getTierById(userId);
-  const isConfirmationAlreadySent = existingTier?.billing?.isConfirmationSent === true;
-  
-  console.log('Subscription activation check', {
-    userId,
-    subscriptionId: subscription.id,
-    isConfirmationAlreadySent
-  });
-  
-  // Update subscription status while preserving confirmation flag
-  await updateSubscriptionStatus(userId, subscription, planDetails);
-
-  // Send confirmation message only if not already sent
-  if (!isConfirmationAlreadySent) {
-    try {
-      // Here you would send confirmation message
-      console.log('Would send subscription confirmation message', { userId, tier: planDetails.tier });
-      
-      // Set confirmation flag after successful message delivery
-      const existingTierUpdated = await getTierById(userId);
-      if (existingTierUpdated) {
-        const updatedBilling: BillingInfo = {
-          renewalPeriod: existingTierUpdated.billing?.renewalPeriod || null,
-          trialStartDate: existingTierUpdated.billing?.trialStartDate || null,
-          trialEndDate: existingTierUpdated.billing?.trialEndDate || null,
-          subscriptionStartDate: existingTierUpdated.billing?.subscriptionStartDate || null,
-          subscriptionEndDate: existingTierUpdated.billing?.subscriptionEndDate || null,
-          razorpaySubscriptionId: existingTierUpdated.billing?.razorpaySubscriptionId,
-          razorpayCustomerId: existingTierUpdated.billing?.razorpayCustomerId,
-          paymentMethod: existingTierUpdated.billing?.paymentMethod,
-          isCancelled: existingTierUpdated.billing?.isCancelled,
-          cancellationDate: existingTierUpdated.billing?.cancellationDate,
-          isConfirmationSent: true
-        };
-        await updateUserTier(userId, existingTierUpdated.tier, updatedBilling);
-      }
-      
-      console.log('Subscription confirmation message sent and flag updated', { userId, tier: planDetails.tier });
-    } catch (notificationError) {
-      console.error('Failed to send confirmation message but continuing processing', {
-        error: notificationError instanceof Error ? notificationError.message : 'Unknown notification error',
-        userId,
-        tier: planDetails.tier
-      });
-      // Don't throw - continue with subscription activation
-    }
-  } else {
-    console.log('Confirmation message already sent, skipping duplicate', { userId, tier: planDetails.tier });
-  }
-
-  console.log('User subscription activated successfully', { userId, tier: planDetails.tier });
-};
-
-// Handle subscription updates without sending confirmation message
-const handleSubscriptionActivatedSilent = async (
-  userId: string, 
-  subscription: any, 
-  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" }
-) => {
-  await updateSubscriptionStatus(userId, subscription, planDetails);
-  console.log('User subscription status updated silently', { userId, tier: planDetails.tier, subscriptionId: subscription.id });
-};
-
-// Common subscription status update logic
-const updateSubscriptionStatus = async (
-  userId: string, 
-  subscription: any, 
-  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" }
-) => {
-  const subscriptionStartDate = new Date(subscription.current_start * 1000).toISOString();
-  const subscriptionEndDate = new Date(subscription.current_end * 1000).toISOString();
-
-  console.log('Updating subscription status', {
-    userId,
-    tier: planDetails.tier,
-    renewalPeriod: planDetails.renewalPeriod,
-    subscriptionId: subscription.id,
-    startDate: subscriptionStartDate,
-    endDate: subscriptionEndDate,
-    paymentMethod: subscription.payment_method
-  });
-  
-  // Get existing billing data to merge with updates
-  const existingTier = await getTierById(userId);
-  const existingBilling = existingTier?.billing || {};
-  
-  // Define the updates for this webhook event
-  const billingUpdates: Partial<BillingInfo> = {
-    renewalPeriod: planDetails.renewalPeriod,
-    subscriptionStartDate,
-    subscriptionEndDate,
-    razorpaySubscriptionId: subscription.id,
-    razorpayCustomerId: subscription.customer_id,
-    paymentMethod: subscription.payment_method,
-    // Clear trial dates since user is now on paid plan
-    trialStartDate: null,
-    trialEndDate: null,
-    // Clear cancellation fields since user is resubscribing
-    isCancelled: false,
-    cancellationDate: null
-  };
-
-
-  
-  // Merge existing billing with updates
-  const billing: BillingInfo = {
-    ...existingBilling,
-    ...billingUpdates
-  } as BillingInfo;
-
-  await updateUserTier(userId, planDetails.tier, billing);
-};
-
-// Handle subscription cancellation - Simple version
-const handleSubscriptionCancelled = async (userId: string, subscription: any) => {
-  console.log('Processing subscription cancellation', { userId, subscriptionId: subscription.id });
-  
-  // Get existing tier to preserve subscription end date
-  const existingTier = await getTierById(userId);
-  if (!existingTier) {
-    console.log('No existing tier found for cancelled subscription - creating user with NONE tier', { userId, subscriptionId: subscription.id });
-    
-    // Create user with NONE tier and cancellation info
-    const billing: BillingInfo = {
-      renewalPeriod: null,
-      subscriptionStartDate: null,
-      subscriptionEndDate: null,
-      razorpaySubscriptionId: null,
-      razorpayCustomerId: subscription.customer_id,
-      paymentMethod: subscription.payment_method,
-      trialStartDate: null,
-      trialEndDate: null,
-      isConfirmationSent: false,
-      isCancelled: true,
-      cancellationDate: new Date().toISOString(),
-    };
-
-    await updateUserTier(userId, 'NONE', billing);
-    console.log('Created user with NONE tier for cancelled subscription', { userId });
-    return;
-  }
-
-  const currentTimestamp = new Date().toISOString();
-  
-  // Check if subscription has actually ended (immediate) or just cancelled (grace period)
-  const hasEnded = subscription.ended_at && subscription.ended_at <= Math.floor(Date.now() / 1000);
-  
-  if (hasEnded) {
-    // Subscription ended - user loses access now
-    console.log('Subscription ended - removing access', { userId, subscriptionId: subscription.id });
-    
-    const billing: BillingInfo = {
-      renewalPeriod: null,
-      subscriptionStartDate: null,
-      subscriptionEndDate: null,
-      razorpaySubscriptionId: null,
-      razorpayCustomerId: existingTier.billing?.razorpayCustomerId,
-      paymentMethod: existingTier.billing?.paymentMethod, // Preserve payment method for historical data
-      trialStartDate: null,
-      trialEndDate: null,
-      isConfirmationSent: false,
-      isCancelled: true,
-      cancellationDate: currentTimestamp,
-    };
-
-    await updateUserTier(userId, 'NONE', billing);
-    
-  } else {
-    // Subscription cancelled but still active - keep access until end date
-    console.log('Subscription cancelled - keeping access until billing period ends', { 
-      userId, 
-      subscriptionId: subscription.id,
-      subscriptionEndDate: existingTier.billing?.subscriptionEndDate 
-    });
-
-    const updatedBilling: BillingInfo = {
-      renewalPeriod: existingTier.billing?.renewalPeriod || null,
-      trialStartDate: existingTier.billing?.trialStartDate || null,
-      trialEndDate: existingTier.billing?.trialEndDate || null,
-      subscriptionStartDate: existingTier.billing?.subscriptionStartDate || null,
-      subscriptionEndDate: existingTier.billing?.subscriptionEndDate || null,
-      razorpayCustomerId: existingTier.billing?.razorpayCustomerId,
-      paymentMethod: existingTier.billing?.paymentMethod,
-      isConfirmationSent: existingTier.billing?.isConfirmationSent,
-      isCancelled: true,
-      cancellationDate: currentTimestamp,
-      razorpaySubscriptionId: existingTier.billing?.razorpaySubscriptionId, // Keep for grace period
-    };
-
-    // Keep current tier until subscription end date
-    await updateUserTier(userId, existingTier.tier, updatedBilling);
-  }
-
-  console.log('Subscription cancellation processed successfully', { userId });
-};
-
-// Handle subscription updates (plan changes)
-const handleSubscriptionUpdated = async (
-  userId: string, 
-  subscription: any, 
-  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" }
-) => {
-  console.log('Updating subscription', {
-    userId,
-    subscriptionId: subscription.id,
-    newTier: planDetails.tier,
-    newRenewalPeriod: planDetails.renewalPeriod
-  });
-
-  await updateSubscriptionStatus(userId, subscription, planDetails);
-
-  console.log('User subscription updated successfully', { userId, newTier: planDetails.tier });
-};
\ No newline at end of file
@@ -1,17 +1,31 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { RAZORPAY_PLAN_IDS } from "@/lib/billing-config";
 
 interface SubscriptionPlan {
   id: string;
   razorpayPlanId: string;
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
   name: string;
   price: number;
   duration: string;
   features: string[];
 }
 
+// Plan as served by /api/plans
+interface CatalogPlanResponse {
+  key: string;
+  razorpayPlanId: string;
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  amount: number;
+  currency: string;
+  displayName: string;
+  description: string | null;
+  features: string[];
+}
+
 interface UserTierInfo {
   username: string;
   hasSubscription: boolean;
@@ -23,18 +37,72 @@ interface UserTierInfo {
       renewalPeriod: "MONTHLY" | "ANNUAL" | null;
       trialStartDate: string | null;
       trialEndDate: string | null;
+      trialStatus?: "active" | "expired" | "converted" | null;
       subscriptionStartDate: string | null;
       subscriptionEndDate: string | null;
       razorpaySubscriptionId?: string | null;
+      razorpayPlanId?: string | null;
       razorpayCustomerId?: string;
       paymentMethod?: string;
       isConfirmationSent?: boolean;
       isCancelled?: boolean;
       cancellationDate?: string | null;
+      lastPaymentStatus?: string | null;
+      lastPaymentAt?: string | null;
+      lastPaymentFailure?: {
+        paymentId: string;
+        amount: number;
+        errorCode: string | null;
+        errorDescription: string | null;
+        failedAt: string;
+        isRenewal: boolean;
+      } | null;
+      failedPaymentCount?: number;
+      status?: string | null;
+      statusChangedAt?: string | null;
+      accessEndsAt?: string | null;
+      pendingChange?: {
+        targetTier: "BASIC" | "PRO";
+        targetRenewalPeriod: "MONTHLY" | "ANNUAL";
+        targetPlanId: string;
+        changeType: string;
+        requestedAt: string;
+        effectiveAt: string | null;
+      } | null;
+      pendingHandover?: {
+        newSubscriptionId: string;
+        targetTier: "BASIC" | "PRO";
+        targetRenewalPeriod: "MONTHLY" | "ANNUAL";
+        paymentUrl: string | null;
+        expiresAt: string;
+        startAt?: string | null;
+        authenticatedAt?: string | null;
+      } | null;
+      pendingUpgrade?: {
+        orderId: string;
+        status: "pending" | "paid" | "expired" | "cancelled";
+        targetTier: "BASIC" | "PRO" | null;
+        targetRenewalPeriod: "MONTHLY" | "ANNUAL" | null;
+      } | null;
     };
 
     updatedAt: string;
   };
+
+  // Plan changes the change-plan policy accepts right now, and the ones it blocks with a reason
+  availableChanges?: PlanChangeOption[];
+  blockedChanges?: PlanChangeOption[];
+}
+
+interface PlanChangeOption {
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  planId: string;
+  changeType: string;
+  scheduleChangeAt: "now" | "cycle_end" | null;
+  allowed: boolean;
+  reason: string | null;
+  availableAt: string | null;
 }
 
 export default function Home() {
@@ -51,40 +119,28 @@ export default function Home() {
     checkoutUrl?: string;
   } | null>(null);
 
-  const subscriptionPlans: SubscriptionPlan[] = [
-    {
-      id: "basic_monthly",
-      razorpayPlanId: RAZORPAY_PLAN_IDS.BASIC_MONTHLY,
-      name: "Basic Plan",
-      price: 89,
-      duration: "monthly",
-      features: ["feature1", "feature2", "feature3"]
-    },
-    {
-      id: "pro_monthly",
-      razorpayPlanId: RAZORPAY_PLAN_IDS.PRO_MONTHLY,
-      name: "Pro Plan",
-      price: 129,
-      duration: "monthly",
-      features: ["feature1", "feature2", "feature3", "feature4", "feature5"]
-    },
-    {
-      id: "basic_yearly",
-      razorpayPlanId: RAZORPAY_PLAN_IDS.BASIC_YEARLY,
-      name: "Basic Plan",
-      price: 749,
-      duration: "yearly",
-      features: ["feature1", "feature2", "feature3"]
-    },
-    {
-      id: "pro_yearly",
-      razorpayPlanId: RAZORPAY_PLAN_IDS.PRO_YEARLY,
-      name: "Pro Plan",
-      price: 1089,
-      duration: "yearly",
-      features: ["feature1", "feature2", "feature3", "feature4", "feature5"]
+  const [subscriptionPlans, setSubscriptionPlans] = useState<SubscriptionPlan[]>([]);
+
+  const fetchPlans = async () => {
+    try {
+      const response = await fetch('/api/plans');
+      const data: { plans: CatalogPlanResponse[] } = await response.json();
+
+      setSubscriptionPlans((data.plans || []).map((plan) => ({
+        id: plan.key,
+        razorpayPlanId: plan.razorpayPlanId,
+        tier: plan.tier,
+        renewalPeriod: plan.renewalPeriod,
+        name: plan.displayName,
+        price: plan.amount / 100,
+        duration: plan.renewalPeriod === 'ANNUAL' ? 'yearly' : 'monthly',
+        features: plan.features,
+      })));
+    } catch (error) {
+      console.error('Error fetching plans:', error);
+      setSubscriptionPlans([]);
     }
-  ];
+  };
 
   const fetchUserBilling = async (usernameToFetch: string) => {
     if (!usernameToFetch.trim()) return;
@@ -122,6 +178,10 @@ export default function Home() {
     fetchUserBilling(username);
   }, [username]);
 
+  useEffect(() => {
+    fetchPlans();
+  }, []);
+
   const handleSubscribe = async (plan: SubscriptionPlan) => {
     console.log('Handling subscription for plan:', plan.id);
 
@@ -153,8 +213,38 @@ export default function Home() {
       console.log('Processing plan change...');
       
       // Determine target tier and renewal period from plan
-      const targetTier = plan.id.includes('basic') ? 'BASIC' : 'PRO';
-      const targetRenewalPeriod = plan.duration === 'yearly' ? 'ANNUAL' : 'MONTHLY';
+      const targetTier = plan.tier;
+      const targetRenewalPeriod = plan.renewalPeriod;
+
+      // Quote the change first so the customer sees the charge or credit before anything happens
+      const previewResponse = await fetch('/api/change-plan/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          username: username,
+          targetTier,
+          targetRenewalPeriod,
+        }),
+      });
+
+      const preview = await previewResponse.json();
+
+      if (!previewResponse.ok || !preview.success) {
+        setUpgradeStatus({
+          show: true,
+          message: preview.message || preview.error || 'Failed to change plan',
+          type: 'error',
+          // A UPI handover already in flight comes back with its mandate link
+          checkoutUrl: preview.paymentUrl || undefined
+        });
+        return;
+      }
+
+      if (!confirm(getPlanChangeConfirmMessage(plan, preview))) {
+        return;
+      }
       
       const response = await fetch('/api/change-plan', {
         method: 'POST',
@@ -174,14 +264,16 @@ export default function Home() {
         setUpgradeStatus({
           show: true,
           message: result.message || 'Plan changed successfully!',
-          type: 'success'
+          type: result.data?.requiresAuthentication ? 'info' : 'success',
+          checkoutUrl: result.data?.requiresAuthentication ? result.data.paymentUrl || undefined : undefined
         });
         await fetchUserBilling(username);
       } else {
         setUpgradeStatus({
           show: true,
           message: result.error || 'Failed to change plan',
-          type: 'error'
+          type: 'error',
+          checkoutUrl: result.paymentUrl || undefined
         });
       }
     } catch (error) {
@@ -197,6 +289,44 @@ export default function Home() {
   };
 
 
+  const getPlanChangeConfirmMessage = (
+    plan: SubscriptionPlan,
+    preview: {
+      netAmount: number | null;
+      amountDue: number | null;
+      newRenewalDate: string | null;
+      scheduleChangeAt: 'now' | 'cycle_end';
+      effectiveAt: string | null;
+      requiresMandate: boolean;
+      nextInvoice: { amount: number; date: string | null };
+    }
+  ): string => {
+    const formatRupees = (paise: number) => `₹${(paise / 100).toFixed(2)}`;
+    const renewalDate = preview.newRenewalDate ? new Date(preview.newRenewalDate).toLocaleDateString() : 'your next renewal';
+
+    if (preview.requiresMandate) {
+      if (preview.amountDue) {
+        return `Switch to ${plan.name} (${plan.duration})? UPI plan changes need a new mandate: ${formatRupees(preview.amountDue)} is charged when you authorize it, then it renews on ${renewalDate}. Your current subscription is cancelled once the new mandate is active.`;
+      }
+      const firstChargeDate = preview.nextInvoice.date ? new Date(preview.nextInvoice.date).toLocaleDateString() : 'the end of your current period';
+      return `Switch to ${plan.name} (${plan.duration})? UPI plan changes need a new mandate: nothing is charged now, and the new mandate bills ${formatRupees(preview.nextInvoice.amount)} from ${firstChargeDate}. Your current plan stays active until then.`;
+    }
+
+    if (preview.scheduleChangeAt === 'cycle_end') {
+      const effectiveDate = preview.effectiveAt ? new Date(preview.effectiveAt).toLocaleDateString() : 'the end of your current period';
+      return `Switch to ${plan.name} (${plan.duration})? Your current plan stays active until ${effectiveDate}, when the change takes effect and ${formatRupees(preview.nextInvoice.amount)} is billed.`;
+    }
+
+    let adjustment = 'No prorated adjustment applies.';
+    if (preview.netAmount !== null && preview.netAmount > 0) {
+      adjustment = `You will be charged ${formatRupees(preview.netAmount)} now for the rest of the current period.`;
+    } else if (preview.netAmount !== null && preview.netAmount < 0) {
+      adjustment = `You will receive a credit of ${formatRupees(-preview.netAmount)} for unused time.`;
+    }
+
+    return `Switch to ${plan.name} (${plan.duration})? ${adjustment} Your next invoice of ${formatRupees(preview.nextInvoice.amount)} is due on ${renewalDate}.`;
+  };
+
   const handleCancel = async () => {
     if (!userBilling?.tierEntity?.billing?.razorpaySubscriptionId) {
       setUpgradeStatus({
@@ -262,6 +392,91 @@ export default function Home() {
     }
   };
 
+  const handleCancelScheduledChange = async () => {
+    const pendingChange = userBilling?.tierEntity?.billing?.pendingChange;
+    if (!pendingChange) {
+      return;
+    }
+
+    if (!confirm(`Cancel your scheduled change to ${pendingChange.targetTier} (${pendingChange.targetRenewalPeriod.toLowerCase()})? Your current plan will keep renewing.`)) {
+      return;
+    }
+
+    setLoading(true);
+    setUpgradeStatus(null);
+
+    try {
+      const response = await fetch('/api/cancel-scheduled-change', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username: username }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok && result.success) {
+        setUpgradeStatus({
+          show: true,
+          message: result.message,
+          type: 'success'
+        });
+        await fetchUserBilling(username);
+      } else {
+        setUpgradeStatus({
+          show: true,
+          message: result.error || 'Failed to cancel scheduled change',
+          type: 'error'
+        });
+      }
+    } catch (error) {
+      console.error('Cancel scheduled change error:', error);
+      setUpgradeStatus({
+        show: true,
+        message: 'Failed to cancel scheduled change. Please try again.',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStartTrial = async () => {
+    setLoading(true);
+    setUpgradeStatus(null);
+
+    try {
+      const response = await fetch('/api/start-trial', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username: username }),
+      });
+
+      const result = await response.json();
+
+      setUpgradeStatus({
+        show: true,
+        message: response.ok && result.success
+          ? `${result.message}. It ends on ${new Date(result.trial.endDate).toLocaleDateString()}.`
+          : result.error || 'Failed to start free trial',
+        type: response.ok && result.success ? 'success' : 'error'
+      });
+      await fetchUserBilling(username);
+    } catch (error) {
+      console.error('Start trial error:', error);
+      setUpgradeStatus({
+        show: true,
+        message: 'Failed to start free trial. Please try again.',
+        type: 'error'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleProratedPayment = (orderId: string) => {
     // Create proper payment page URL for the prorated amount
     const paymentUrl = `/payment?username=${encodeURIComponent(username)}&orderId=${encodeURIComponent(orderId)}&type=prorated`;
@@ -324,14 +539,31 @@ export default function Home() {
     }
   };
 
+  const getSubscriptionStatusLabel = (): string => {
+    const billing = userBilling?.tierEntity?.billing;
+    if (billing?.isCancelled) return 'CANCELLED';
+    if (billing?.status === 'halted' || billing?.status === 'paused') return billing.status.toUpperCase();
+    if (userBilling?.hasSubscription) return billing?.status === 'pending' ? 'PAYMENT PENDING' : 'ACTIVE';
+    return 'INACTIVE';
+  };
+
+  // A paid prorated upgrade leaves the mandate on the old plan until a new one is set up
+  const needsUpgradeMandate = (): boolean => {
+    const billing = userBilling?.tierEntity?.billing;
+    if (billing?.pendingUpgrade?.status !== 'paid' || billing.pendingHandover || billing.paymentMethod !== 'upi') {
+      return false;
+    }
+    const subscribedPlan = subscriptionPlans.find(p => p.razorpayPlanId === billing.razorpayPlanId);
+    return !subscribedPlan || subscribedPlan.tier !== billing.pendingUpgrade.targetTier;
+  };
+
   const getButtonText = (plan: SubscriptionPlan): string => {
     if (!userBilling?.hasSubscription) return "Subscribe Now";
     
     const currentTier = userBilling.tierEntity?.tier;
-    const newTier = plan.id.includes('basic') ? 'BASIC' : 'PRO';
-    const isYearly = plan.duration === 'yearly';
+    const newTier = plan.tier;
+    const isYearly = plan.renewalPeriod === 'ANNUAL';
     const currentRenewal = userBilling.tierEntity?.billing?.renewalPeriod;
-    const paymentMethod = userBilling.tierEntity?.billing?.paymentMethod || 'upi'; // Default to UPI if not specified
     
     // Check if user has an active subscription based on hasSubscription flag and cancellation status
     const isActiveSubscription = Boolean(userBilling?.hasSubscription && 
@@ -345,35 +577,44 @@ export default function Home() {
       return "Current Plan";
     }
     
-    // Check if UPI payment method - disable plan changes
-    if (paymentMethod === 'upi') {
-      return "Not Supported";
+    // A UPI handover in flight must finish before another change
+    if (userBilling.tierEntity?.billing?.pendingHandover) {
+      return "Mandate Pending";
+    }
+    
+    // Blocked by the plan change policy, e.g. a downgrade right after an upgrade
+    if (getBlockedChange(plan)) {
+      return "Unavailable";
     }
     
     // All other cases are plan changes
     return "Change Plan";
   };
 
+  const getBlockedChange = (plan: SubscriptionPlan): PlanChangeOption | undefined =>
+    userBilling?.blockedChanges?.find(change => change.planId === plan.razorpayPlanId);
+
   const isButtonDisabled = (plan: SubscriptionPlan): boolean => {
     if (fetchingBilling || loading || !username.trim()) return true;
     
     if (!userBilling?.hasSubscription) return false;
     
     const currentTier = userBilling.tierEntity?.tier;
-    const newTier = plan.id.includes('basic') ? 'BASIC' : 'PRO';
-    const isYearly = plan.duration === 'yearly';
+    const newTier = plan.tier;
+    const isYearly = plan.renewalPeriod === 'ANNUAL';
     const currentRenewal = userBilling.tierEntity?.billing?.renewalPeriod;
-    const paymentMethod = userBilling.tierEntity?.billing?.paymentMethod || 'upi'; // Default to UPI if not specified
     
     // Check if user has an active subscription based on hasSubscription flag and cancellation status
     const isActiveSubscription = Boolean(userBilling?.hasSubscription && 
                                          !userBilling?.tierEntity?.billing?.isCancelled);
     
-    // Disable if UPI payment method and not the current plan (plan changes not supported for UPI)
-    if (isActiveSubscription && paymentMethod === 'upi') {
-      const isCurrentPlan = currentTier === newTier &&
-        ((currentRenewal === 'MONTHLY' && !isYearly) || (currentRenewal === 'ANNUAL' && isYearly));
-      return !isCurrentPlan; // Disable all buttons except current plan for UPI users
+    // Disable while a UPI handover waits for its new mandate
+    if (isActiveSubscription && userBilling.tierEntity?.billing?.pendingHandover) {
+      return true;
+    }
+    
+    if (isActiveSubscription && getBlockedChange(plan)) {
+      return true;
     }
     
     // Disable if it's the current plan or if subscription is not active
@@ -413,17 +654,15 @@ export default function Home() {
                 <div className="flex items-center gap-2">
                   <span className="text-sm font-medium text-gray-600">Status:</span>
                   <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
-                    userBilling?.hasSubscription && !userBilling?.tierEntity?.billing?.isCancelled
+                    getSubscriptionStatusLabel() === 'ACTIVE'
                       ? 'bg-green-100 text-green-800' 
-                      : userBilling?.tierEntity?.billing?.isCancelled
-                        ? 'bg-red-100 text-red-800'
-                        : 'bg-gray-100 text-gray-800'
+                      : getSubscriptionStatusLabel() === 'INACTIVE'
+                        ? 'bg-gray-100 text-gray-800'
+                        : getSubscriptionStatusLabel() === 'CANCELLED'
+                          ? 'bg-red-100 text-red-800'
+                          : 'bg-yellow-100 text-yellow-800'
                   }`}>
-                    {userBilling?.hasSubscription && !userBilling?.tierEntity?.billing?.isCancelled
-                      ? 'ACTIVE'
-                      : userBilling?.tierEntity?.billing?.isCancelled
-                        ? 'CANCELLED'
-                        : 'INACTIVE'}
+                    {getSubscriptionStatusLabel()}
                   </span>
                 </div>
               </>
@@ -464,6 +703,27 @@ export default function Home() {
             )}
           </div>
           
+          {userBilling?.tierEntity?.tier === 'TRIAL' && userBilling.tierEntity.billing?.trialEndDate && (
+            <p className="mt-3 text-sm text-gray-600">
+              Free trial ends on {new Date(userBilling.tierEntity.billing.trialEndDate).toLocaleDateString()}. Subscribe to keep your access.
+            </p>
+          )}
+
+          {/* One free trial per account */}
+          {!fetchingBilling && userBilling && !userBilling.hasSubscription &&
+            (userBilling.tierEntity?.tier || 'NONE') === 'NONE' &&
+            !userBilling.tierEntity?.billing?.trialStatus &&
+            !userBilling.tierEntity?.billing?.trialStartDate && (
+            <div className="mt-3">
+              <button
+                onClick={handleStartTrial}
+                disabled={loading || !username.trim()}
+                className="inline-flex items-center px-4 py-2 bg-green-600 text-white text-sm font-medium rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+              >
+                Start Free Trial
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Status Notification */}
@@ -571,19 +831,26 @@ export default function Home() {
                     <div className="flex justify-between">
                       <span className="text-gray-600">Status:</span>
                       <span className={`font-semibold ${
-                        userBilling?.hasSubscription && !userBilling?.tierEntity?.billing?.isCancelled
+                        getSubscriptionStatusLabel() === 'ACTIVE'
                           ? 'text-green-600'
-                          : userBilling?.tierEntity?.billing?.isCancelled
-                            ? 'text-red-600'
-                            : 'text-gray-600'
+                          : getSubscriptionStatusLabel() === 'INACTIVE'
+                            ? 'text-gray-600'
+                            : getSubscriptionStatusLabel() === 'CANCELLED'
+                              ? 'text-red-600'
+                              : 'text-yellow-600'
                       }`}>
-                        {userBilling?.hasSubscription && !userBilling?.tierEntity?.billing?.isCancelled
-                          ? 'ACTIVE'
-                          : userBilling?.tierEntity?.billing?.isCancelled
-                            ? 'CANCELLED'
-                            : 'INACTIVE'}
+                        {getSubscriptionStatusLabel()}
                       </span>
                     </div>
+                    {(userBilling?.tierEntity?.billing?.status === 'halted' || userBilling?.tierEntity?.billing?.status === 'paused') &&
+                      userBilling?.tierEntity?.billing?.accessEndsAt && (
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Access Until:</span>
+                        <span className="font-semibold text-gray-900">
+                          {new Date(userBilling.tierEntity.billing.accessEndsAt).toLocaleDateString()}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-gray-600">Next Billing:</span>
                       <span className="font-semibold text-gray-900">
@@ -593,6 +860,77 @@ export default function Home() {
                       </span>
                     </div>
                     
+                    {userBilling?.tierEntity?.billing?.pendingHandover && (
+                      <div className="p-3 rounded-lg bg-orange-50 border border-orange-200 text-sm text-orange-800">
+                        <p className="font-medium">
+                          Switching to {userBilling.tierEntity.billing.pendingHandover.targetTier}
+                          {' '}({userBilling.tierEntity.billing.pendingHandover.targetRenewalPeriod.toLowerCase()})
+                        </p>
+                        {userBilling.tierEntity.billing.pendingHandover.authenticatedAt ? (
+                          <p className="mt-1">
+                            New UPI mandate set up. Billing on the new plan starts on{' '}
+                            {userBilling.tierEntity.billing.pendingHandover.startAt
+                              ? new Date(userBilling.tierEntity.billing.pendingHandover.startAt).toLocaleDateString()
+                              : 'your next renewal'}.
+                          </p>
+                        ) : (
+                          <p className="mt-1">
+                            Set up the new UPI mandate before{' '}
+                            {new Date(userBilling.tierEntity.billing.pendingHandover.expiresAt).toLocaleString()}.
+                            {' '}Your current plan stays active until then.
+                          </p>
+                        )}
+                        {!userBilling.tierEntity.billing.pendingHandover.authenticatedAt && userBilling.tierEntity.billing.pendingHandover.paymentUrl && (
+                          <button
+                            onClick={() => window.open(userBilling.tierEntity?.billing?.pendingHandover?.paymentUrl || '', '_blank')}
+                            className="mt-2 inline-flex items-center px-3 py-1 bg-orange-600 text-white text-xs font-medium rounded-lg hover:bg-orange-700 transition-colors"
+                          >
+                            🔐 Setup UPI Mandate
+                          </button>
+                        )}
+                      </div>
+                    )}
+
+                    {needsUpgradeMandate() && (
+                      <div className="p-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">
+                        <p className="font-medium">
+                          Upgraded to {userBilling?.tierEntity?.billing?.pendingUpgrade?.targetTier}
+                        </p>
+                        <p className="mt-1">
+                          Set up a UPI mandate so your renewals are billed on the new plan.
+                        </p>
+                        <button
+                          onClick={handleSetupNewSubscription}
+                          disabled={loading}
+                          className="mt-2 inline-flex items-center px-3 py-1 bg-green-600 text-white text-xs font-medium rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                        >
+                          🔐 Setup UPI Mandate
+                        </button>
+                      </div>
+                    )}
+
+                    {userBilling?.tierEntity?.billing?.pendingChange && (
+                      <div className="p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-800">
+                        <p className="font-medium">
+                          Scheduled change to {userBilling.tierEntity.billing.pendingChange.targetTier}
+                          {' '}({userBilling.tierEntity.billing.pendingChange.targetRenewalPeriod.toLowerCase()})
+                        </p>
+                        <p className="mt-1">
+                          Takes effect on{' '}
+                          {userBilling.tierEntity.billing.pendingChange.effectiveAt
+                            ? new Date(userBilling.tierEntity.billing.pendingChange.effectiveAt).toLocaleDateString()
+                            : 'your next renewal'}
+                        </p>
+                        <button
+                          onClick={handleCancelScheduledChange}
+                          disabled={loading}
+                          className="mt-2 text-blue-700 underline hover:text-blue-900 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Cancel scheduled change
+                        </button>
+                      </div>
+                    )}
+
                     {userBilling?.tierEntity?.billing?.paymentMethod && (
                       <div className="flex justify-between">
                         <span className="text-gray-600">Payment Method:</span>
@@ -612,6 +950,21 @@ export default function Home() {
                       </div>
                     )}
                     
+                    {userBilling?.tierEntity?.billing?.lastPaymentFailure && (
+                      <div className="p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-800">
+                        <p className="font-medium">
+                          {userBilling.tierEntity.billing.lastPaymentFailure.isRenewal ? 'Renewal payment failed' : 'Payment failed'}
+                          {' '}on {new Date(userBilling.tierEntity.billing.lastPaymentFailure.failedAt).toLocaleDateString()}
+                        </p>
+                        <p className="mt-1">
+                          ₹{userBilling.tierEntity.billing.lastPaymentFailure.amount / 100}
+                          {userBilling.tierEntity.billing.lastPaymentFailure.errorDescription
+                            ? ` - ${userBilling.tierEntity.billing.lastPaymentFailure.errorDescription}`
+                            : ''}
+                        </p>
+                      </div>
+                    )}
+
                     {/* Cancellation Button */}
                     {userBilling?.hasSubscription && !userBilling?.tierEntity?.billing?.isCancelled && (
                       <div className="mt-3 pt-3 border-t border-gray-300">
@@ -652,8 +1005,8 @@ export default function Home() {
                         <div className="text-xs text-gray-600 mt-1">
                           {(() => {
                             const currentTier = userBilling.tierEntity?.tier;
-                            const newTier = plan.id.includes('basic') ? 'BASIC' : 'PRO';
-                            const isYearly = plan.duration === 'yearly';
+                            const newTier = plan.tier;
+                            const isYearly = plan.renewalPeriod === 'ANNUAL';
                             const currentRenewal = userBilling.tierEntity?.billing?.renewalPeriod;
                             const paymentMethod = userBilling.tierEntity?.billing?.paymentMethod || 'upi'; // Default to UPI if not specified
                             
@@ -663,7 +1016,7 @@ export default function Home() {
                             }
                             
                             if (paymentMethod === 'upi') {
-                              return " Plan change not supported for UPI";
+                              return "🔐 Plan change with a new UPI mandate";
                             }
                             
                             return "📋 Available plan change";
@@ -699,13 +1052,20 @@ export default function Home() {
                           ? 'bg-gray-600 text-white'
                           : getButtonText(plan) === 'Change Plan'
                           ? 'bg-orange-600 text-white hover:bg-orange-700'
-                          : getButtonText(plan) === 'Not Supported'
+                          : getButtonText(plan) === 'Mandate Pending' || getButtonText(plan) === 'Unavailable'
                           ? 'bg-gray-400 text-white cursor-not-allowed'
                           : 'bg-blue-600 text-white hover:bg-blue-700'
                       }`}
                     >
                       {loading || fetchingBilling ? "Processing..." : getButtonText(plan)}
                     </button>
+                    {getButtonText(plan) === 'Unavailable' && (
+                      <p className="mt-2 text-xs text-gray-500 text-center">
+                        {getBlockedChange(plan)?.reason}
+                        {getBlockedChange(plan)?.availableAt &&
+                          ` (from ${new Date(getBlockedChange(plan)!.availableAt!).toLocaleDateString()})`}
+                      </p>
+                    )}
                   </div>
                 ))}
               </div>
@@ -721,10 +1081,10 @@ export default function Home() {
                     </div>
                     <div className="ml-3">
                       <h3 className="text-sm font-medium text-orange-800">
-                        Plan Change Not Available
+                        Plan Changes Need a New UPI Mandate
                       </h3>
                       <p className="mt-1 text-sm text-orange-700">
-                        Plan changes are not supported for UPI payment method.
+                        UPI mandates cannot be changed in place. Changing plan sets up a new mandate, and your current subscription is cancelled once it is active. Downgrades and annual to monthly switches start at the end of your billing period.
                       </p>
                     </div>
                   </div>
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useState, Suspense } from 'react';
+import { useSearchParams } from 'next/navigation';
+
+interface SetupSubscriptionResponse {
+  success: boolean;
+  existing?: boolean;
+  message: string;
+  paymentLink: string;
+  subscriptionId: string;
+  startAt: string | null;
+  planDetails?: {
+    tier: string;
+    renewalPeriod: string;
+    amount: number;
+  };
+}
+
+type SetupStep = 'verifying' | 'confirming' | 'ready' | 'error';
+
+// The payment_link.paid webhook can land a few seconds after the customer is redirected back
+const CONFIRMATION_RETRIES = 5;
+const CONFIRMATION_RETRY_DELAY_MS = 2000;
+const MANDATE_REDIRECT_DELAY_MS = 5000;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function SetupMandateContent() {
+  const searchParams = useSearchParams();
+  const [step, setStep] = useState<SetupStep>('verifying');
+  const [error, setError] = useState<string | null>(null);
+  const [setup, setSetup] = useState<SetupSubscriptionResponse | null>(null);
+
+  const username = searchParams.get('username');
+  const proratedAmount = searchParams.get('proratedAmount');
+
+  useEffect(() => {
+    const setupMandate = async () => {
+      if (!username) {
+        setError('Missing required parameter: username');
+        setStep('error');
+        return;
+      }
+
+      try {
+        // Coming back from the prorated payment link - check Razorpay's signature before trusting the status
+        const paymentLinkId = searchParams.get('razorpay_payment_link_id');
+        if (paymentLinkId) {
+          const verifyResponse = await fetch('/api/verify-payment', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              razorpay_payment_id: searchParams.get('razorpay_payment_id'),
+              razorpay_payment_link_id: paymentLinkId,
+              razorpay_payment_link_reference_id: searchParams.get('razorpay_payment_link_reference_id'),
+              razorpay_payment_link_status: searchParams.get('razorpay_payment_link_status'),
+              razorpay_signature: searchParams.get('razorpay_signature'),
+            }),
+          });
+
+          const verification = await verifyResponse.json();
+          console.log('Prorated payment verification:', verification);
+
+          if (!verifyResponse.ok || !verification.verified) {
+            throw new Error('We could not verify your payment. Please contact support if you were charged.');
+          }
+          if (verification.paymentLinkStatus !== 'paid') {
+            throw new Error('Your prorated payment was not completed. No mandate was set up.');
+          }
+        }
+
+        setStep('confirming');
+
+        for (let attempt = 1; attempt <= CONFIRMATION_RETRIES; attempt++) {
+          const response = await fetch('/api/setup-new-subscription', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              username,
+              afterProratedPayment: Boolean(paymentLinkId),
+            }),
+          });
+
+          const data = await response.json();
+
+          if (response.status === 409 && data.retryable && attempt < CONFIRMATION_RETRIES) {
+            console.log('Prorated payment not confirmed yet, retrying...', { attempt });
+            await wait(CONFIRMATION_RETRY_DELAY_MS);
+            continue;
+          }
+
+          if (!response.ok || !data.success || !data.paymentLink) {
+            throw new Error(data.error || `HTTP error! status: ${response.status}`);
+          }
+
+          console.log('Mandate setup ready:', data);
+          setSetup(data);
+          setStep('ready');
+          return;
+        }
+      } catch (err) {
+        console.error('Mandate setup error:', err);
+        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+        setStep('error');
+      }
+    };
+
+    setupMandate();
+  }, [searchParams, username]);
+
+  // Send the customer on to authorize the recurring mandate
+  useEffect(() => {
+    if (step !== 'ready' || !setup?.paymentLink) return;
+
+    const timer = setTimeout(() => {
+      window.location.href = setup.paymentLink;
+    }, MANDATE_REDIRECT_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [step, setup]);
+
+  if (step === 'verifying' || step === 'confirming') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+        <div className="w-full max-w-md mx-auto">
+          <div className="bg-white rounded-lg shadow-lg p-8">
+            <div className="flex flex-col items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mb-4"></div>
+              <h2 className="text-xl font-semibold mb-2 text-center">
+                {step === 'verifying' ? 'Verifying Payment' : 'Preparing Your Mandate'}
+              </h2>
+              <p className="text-gray-600 text-center">
+                {step === 'verifying'
+                  ? 'Please wait while we confirm your payment...'
+                  : 'Please wait while we set up your recurring payment...'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === 'error') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+        <div className="w-full max-w-md mx-auto">
+          <div className="bg-white rounded-lg shadow-lg p-8">
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+              <h3 className="text-red-800 font-semibold mb-2">Mandate Setup Error</h3>
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+            <button
+              onClick={() => { window.location.href = '/'; }}
+              className="mt-4 w-full bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700 transition-colors"
+            >
+              Back to Plans
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          {proratedAmount && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-4">
+              <h3 className="text-green-800 font-semibold mb-1">Payment Successful</h3>
+              <p className="text-green-700 text-sm">
+                Your prorated payment of ₹{proratedAmount} was received and your upgrade is active.
+              </p>
+            </div>
+          )}
+          <h2 className="text-xl font-semibold mb-2">Set Up Recurring Payments</h2>
+          <p className="text-gray-600 text-sm mb-4">{setup?.message}</p>
+          {setup?.planDetails && (
+            <p className="text-gray-600 text-sm mb-4">
+              {setup.planDetails.tier} {setup.planDetails.renewalPeriod.toLowerCase()} - ₹{setup.planDetails.amount / 100}
+              {setup.startAt && ` from ${new Date(setup.startAt).toLocaleDateString()}`}
+            </p>
+          )}
+          <button
+            onClick={() => { if (setup?.paymentLink) window.location.href = setup.paymentLink; }}
+            className="w-full bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Set up UPI mandate
+          </button>
+          <p className="text-gray-500 text-xs text-center mt-3">
+            Redirecting you automatically in a few seconds...
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SetupMandatePage() {
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4 py-8">
+        <div className="w-full max-w-md mx-auto">
+          <div className="bg-white rounded-lg shadow-lg p-8">
+            <div className="flex flex-col items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mb-4"></div>
+              <h2 className="text-xl font-semibold mb-2 text-center">Loading</h2>
+              <p className="text-gray-600 text-center">
+                Please wait...
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    }>
+      <SetupMandateContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { timingSafeStringEqual } from '@/lib/razorpay-signature';
+
+// Admin routes require `Authorization: Bearer <ADMIN_API_KEY>`
+export const isAdminRequest = (request: NextRequest): boolean => {
+  const adminApiKey = process.env.ADMIN_API_KEY;
+  if (!adminApiKey) {
+    console.error('ADMIN_API_KEY is not configured - rejecting admin request');
+    return false;
+  }
+
+  const authorization = request.headers.get('authorization') || '';
+  const providedKey = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+
+  return timingSafeStringEqual(adminApiKey, providedKey);
+};
+
+// Scheduled jobs send `Authorization: Bearer <CRON_SECRET>`; the admin key is accepted too so a job
+// can be run by hand. Returns who called, or null when neither matches.
+export const getJobCaller = (request: NextRequest): 'cron' | 'admin' | null => {
+  const cronSecret = process.env.CRON_SECRET;
+  const authorization = request.headers.get('authorization') || '';
+  const providedKey = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : '';
+
+  if (cronSecret && timingSafeStringEqual(cronSecret, providedKey)) {
+    return 'cron';
+  }
+  return isAdminRequest(request) ? 'admin' : null;
+};
@@ -1,63 +1,101 @@
-export const RAZORPAY_PLAN_IDS = {
-  BASIC_MONTHLY: 'plan_R7G6hu5lBKJdpl',
-  PRO_MONTHLY: 'plan_R7G7VNbsYt55dG',
-  BASIC_YEARLY: 'plan_R7G8xw8x4WDSoM',
-  PRO_YEARLY: 'plan_R7G9duBj5HV9Oz',
-};
-
-export const getPlanDetails = (planId: string) => {
-  const planMapping: Record<string, {
-    tier: "BASIC" | "PRO";
-    renewalPeriod: "MONTHLY" | "ANNUAL";
-    amount: number;
-  }> = {
-    [RAZORPAY_PLAN_IDS.BASIC_MONTHLY]: {
-      tier: "BASIC",
-      renewalPeriod: "MONTHLY",
-      amount: 8900, // ₹89 in paise
-    },
-    [RAZORPAY_PLAN_IDS.PRO_MONTHLY]: {
-      tier: "PRO",
-      renewalPeriod: "MONTHLY",
-      amount: 12900, // ₹129 in paise
-    },
-    [RAZORPAY_PLAN_IDS.BASIC_YEARLY]: {
-      tier: "BASIC",
-      renewalPeriod: "ANNUAL",
-      amount: 74900, // ₹749 in paise
-    },
-    [RAZORPAY_PLAN_IDS.PRO_YEARLY]: {
-      tier: "PRO",
-      renewalPeriod: "ANNUAL",
-      amount: 108900, // ₹1089 in paise
-    },
-  };
-
-  return planMapping[planId] || null;
-};
-
-// Calculate prorated upgrade cost for mid-cycle upgrades
-export const calculateProratedUpgradeCost = (
-  currentPlanAmount: number, // in paise
-  newPlanAmount: number, // in paise
-  daysRemaining: number,
-  totalDaysInCycle: number = 30
-): number => {
-  const dailyDifference = (newPlanAmount - currentPlanAmount) / totalDaysInCycle;
-  const proratedCost = Math.round(dailyDifference * daysRemaining);
-  return Math.max(0, proratedCost);
-};
-
-// Calculate days remaining in current billing cycle
-export const getDaysRemainingInCycle = (subscriptionEndDate: Date): number => {
-  const now = new Date();
-  const diffTime = subscriptionEndDate.getTime() - now.getTime();
-  const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-  return Math.max(0, diffDays);
-};
-
-// Calculate total days in billing cycle
-export const getTotalDaysInCycle = (renewalPeriod: "MONTHLY" | "ANNUAL"): number => {
-  return renewalPeriod === "ANNUAL" ? 365 : 30;
+import type { BillingInfo, PendingMandateInfo, PlanHandoverInfo, TierEntity } from '@/lib/tier-repository';
+import type { RazorpaySubscriptionEntity } from '@/lib/razorpay-events';
+
+// Access rules for subscriptions Razorpay has stopped charging.
+// graceDays is how long the user keeps their tier after the event; 0 downgrades to NONE immediately.
+export const SUBSCRIPTION_ACCESS_RULES: Record<"halted" | "paused", { graceDays: number }> = {
+  halted: { graceDays: Number(process.env.HALTED_GRACE_DAYS ?? 7) },
+  paused: { graceDays: Number(process.env.PAUSED_GRACE_DAYS ?? 0) },
+};
+
+// Calculate when access ends for a subscription that was halted or paused at suspendedAt
+export const getSuspendedAccessEnd = (status: "halted" | "paused", suspendedAt: Date): Date => {
+  const { graceDays } = SUBSCRIPTION_ACCESS_RULES[status];
+  return new Date(suspendedAt.getTime() + graceDays * 24 * 60 * 60 * 1000);
+};
+
+// Whether the billing state still grants access to the paid tier
+export const hasSubscriptionAccess = (billing: BillingInfo, now: Date = new Date()): boolean => {
+  if (billing.status === 'halted' || billing.status === 'paused') {
+    return Boolean(billing.accessEndsAt && new Date(billing.accessEndsAt) > now);
+  }
+  return true;
+};
+
+// Whether a halted/paused user still holds a paid tier past their grace period
+export const isSuspendedAccessExpired = (tierData: Pick<TierEntity, 'tier' | 'billing'>, now: Date = new Date()): boolean => {
+  return Boolean(
+    tierData.billing &&
+    (tierData.tier === 'BASIC' || tierData.tier === 'PRO') &&
+    !hasSubscriptionAccess(tierData.billing, now)
+  );
+};
+
+// Whether a cancelled subscription kept its tier past the end of the period the user paid for
+export const isCancelledAccessExpired = (tierData: Pick<TierEntity, 'tier' | 'billing'>, now: Date = new Date()): boolean => {
+  return Boolean(
+    tierData.billing?.isCancelled &&
+    (tierData.tier === 'BASIC' || tierData.tier === 'PRO') &&
+    tierData.billing.subscriptionEndDate &&
+    new Date(tierData.billing.subscriptionEndDate) <= now
+  );
+};
+
+// How long the mandate link of a UPI plan change stays valid
+export const PLAN_HANDOVER_LINK_HOURS = Number(process.env.PLAN_HANDOVER_LINK_HOURS ?? 24);
+
+// A handover whose link expired unauthenticated can no longer activate, so it no longer blocks a new one.
+// An authenticated mandate stays in flight until it activates, even when its start is deferred.
+export const isPlanHandoverInFlight = (
+  handover: PlanHandoverInfo | null | undefined,
+  now: Date = new Date()
+): handover is PlanHandoverInfo => {
+  return Boolean(handover && (handover.authenticatedAt || new Date(handover.expiresAt) > now));
+};
+
+// Same as a handover: a mandate link that expired can no longer activate, so a new one may be created
+export const isPendingMandateInFlight = (
+  mandate: PendingMandateInfo | null | undefined,
+  now: Date = new Date()
+): mandate is PendingMandateInfo => {
+  return Boolean(mandate && new Date(mandate.expiresAt) > now);
+};
+
+// How long a prorated upgrade quote (Razorpay order) can be paid before a fresh one is needed
+export const PRORATED_ORDER_VALIDITY_MINUTES = Number(process.env.PRORATED_ORDER_VALIDITY_MINUTES ?? 30);
+
+// Whether a pending prorated upgrade still holds a payable quote
+export const isProratedQuoteValid = (createdAt: string, now: Date = new Date()): boolean => {
+  return now.getTime() - new Date(createdAt).getTime() < PRORATED_ORDER_VALIDITY_MINUTES * 60 * 1000;
 };
 
+// The plan a paid prorated upgrade granted, while events of the subscription it was paid on still
+// carry the old plan_id - until that subscription moves into a cycle the payment did not cover
+export const getPaidUpgradePlan = (
+  billing: BillingInfo | undefined,
+  subscription: Pick<RazorpaySubscriptionEntity, 'id' | 'current_end'>
+): { tier: "BASIC" | "PRO"; renewalPeriod: "MONTHLY" | "ANNUAL" } | null => {
+  const upgrade = billing?.pendingUpgrade;
+  if (upgrade?.status !== 'paid' || !upgrade.targetTier || !upgrade.targetRenewalPeriod ||
+      !upgrade.subscriptionId || upgrade.subscriptionId !== subscription.id) {
+    return null;
+  }
+
+  const periodEnd = subscription.current_end ? new Date(subscription.current_end * 1000) : null;
+  if (upgrade.paidThrough && periodEnd && periodEnd > new Date(upgrade.paidThrough)) {
+    return null;
+  }
+  return { tier: upgrade.targetTier, renewalPeriod: upgrade.targetRenewalPeriod };
+};
+
+// Length of the free trial every user can start once
+export const TRIAL_DAYS = Number(process.env.TRIAL_DAYS ?? 7);
+
+// Whether a TRIAL user has reached the end of their trial
+export const isTrialExpired = (tierData: Pick<TierEntity, 'tier' | 'billing'>, now: Date = new Date()): boolean => {
+  return Boolean(
+    tierData.tier === 'TRIAL' &&
+    tierData.billing?.trialEndDate &&
+    new Date(tierData.billing.trialEndDate) <= now
+  );
+};
@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import { Query } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase';
+
+export type StorageBackend = "firestore" | "memory";
+
+// Equality filters on top-level fields, then an optional sort and limit
+export interface DocumentQuery {
+  where?: Record<string, string | number | boolean>;
+  orderBy?: string;
+  direction?: "asc" | "desc";
+  limit?: number;
+}
+
+export interface DocumentWrite<T> {
+  id: string;
+  data: T; // Replaces the whole document
+}
+
+// A collection of documents addressed by id - the storage every non-tier module goes through
+export interface DocumentCollection<T extends object> {
+  newId: () => string;
+  get: (id: string) => Promise<T | null>;
+  set: (id: string, data: T) => Promise<void>;
+  update: (id: string, updates: Partial<T>) => Promise<void>;
+  query: (query?: DocumentQuery) => Promise<T[]>;
+  // Read the documents, decide the writes and commit them atomically. fn may run more than once
+  // when another write got in between, so it must not have side effects.
+  transact: <R>(ids: string[], fn: (docs: (T | null)[]) => { writes: DocumentWrite<T>[]; result: R }) => Promise<R>;
+}
+
+// STORAGE_BACKEND picks where every store lives: "firestore" (default) or "memory" for tests and
+// local development without credentials
+export const getStorageBackend = (): StorageBackend => {
+  const configured = (process.env.STORAGE_BACKEND || 'firestore').trim().toLowerCase();
+  if (configured !== 'firestore' && configured !== 'memory') {
+    console.warn('Unknown STORAGE_BACKEND - using firestore', { configured });
+    return 'firestore';
+  }
+  return configured;
+};
+
+const createFirestoreCollection = <T extends object>(name: string): DocumentCollection<T> => {
+  const collection = () => getDb().collection(name);
+
+  return {
+    newId: () => collection().doc().id,
+
+    get: async (id) => {
+      const doc = await collection().doc(id).get();
+      return doc.exists ? (doc.data() as T) : null;
+    },
+
+    set: async (id, data) => {
+      await collection().doc(id).set(data);
+    },
+
+    update: async (id, updates) => {
+      await collection().doc(id).update(updates);
+    },
+
+    query: async ({ where = {}, orderBy, direction = 'asc', limit } = {}) => {
+      let query: Query = collection();
+      for (const [field, value] of Object.entries(where)) {
+        query = query.where(field, '==', value);
+      }
+      if (orderBy) {
+        query = query.orderBy(orderBy, direction);
+      }
+      if (limit) {
+        query = query.limit(limit);
+      }
+
+      const querySnapshot = await query.get();
+      return querySnapshot.docs.map((doc) => doc.data() as T);
+    },
+
+    transact: (ids, fn) => getDb().runTransaction(async (transaction) => {
+      const docRefs = ids.map((id) => collection().doc(id));
+      const docs = await Promise.all(docRefs.map((docRef) => transaction.get(docRef)));
+      const { writes, result } = fn(docs.map((doc) => (doc.exists ? (doc.data() as T) : null)));
+
+      for (const write of writes) {
+        transaction.set(collection().doc(write.id), write.data);
+      }
+      return result;
+    }),
+  };
+};
+
+// Callers get copies, so nothing outside the store can change stored state
+const copy = <T>(value: T): T => structuredClone(value);
+
+const compareValues = (a: unknown, b: unknown) =>
+  a === b ? 0 : a === undefined || a === null ? -1 : b === undefined || b === null ? 1 : (a as any) < (b as any) ? -1 : 1;
+
+// Nothing is awaited between a read and its write, so each call is atomic on its own
+const createMemoryCollection = <T extends object>(documents: Map<string, T>): DocumentCollection<T> => ({
+  newId: () => randomUUID(),
+
+  get: async (id) => (documents.has(id) ? copy(documents.get(id)!) : null),
+
+  set: async (id, data) => {
+    documents.set(id, copy(data));
+  },
+
+  update: async (id, updates) => {
+    const existing = documents.get(id);
+    if (!existing) {
+      throw new Error(`No document to update: ${id}`);
+    }
+    documents.set(id, { ...existing, ...copy(updates) });
+  },
+
+  query: async ({ where = {}, orderBy, direction = 'asc', limit } = {}) => {
+    const matches = Array.from(documents.values()).filter((doc) =>
+      Object.entries(where).every(([field, value]) => (doc as Record<string, unknown>)[field] === value)
+    );
+    if (orderBy) {
+      const sign = direction === 'desc' ? -1 : 1;
+      matches.sort((a, b) => sign * compareValues((a as Record<string, unknown>)[orderBy], (b as Record<string, unknown>)[orderBy]));
+    }
+    return copy(limit ? matches.slice(0, limit) : matches);
+  },
+
+  transact: async (ids, fn) => {
+    const { writes, result } = fn(ids.map((id) => (documents.has(id) ? copy(documents.get(id)!) : null)));
+    for (const write of writes) {
+      documents.set(write.id, copy(write.data));
+    }
+    return result;
+  },
+});
+
+// Survives module reloads in next dev, so local data outlives an edit
+const globalForDocuments = globalThis as typeof globalThis & { memoryDocuments?: Map<string, Map<string, object>> };
+
+export const getCollection = <T extends object>(name: string): DocumentCollection<T> => {
+  if (getStorageBackend() === 'memory') {
+    globalForDocuments.memoryDocuments ||= new Map();
+    if (!globalForDocuments.memoryDocuments.has(name)) {
+      globalForDocuments.memoryDocuments.set(name, new Map());
+    }
+    return createMemoryCollection(globalForDocuments.memoryDocuments.get(name) as Map<string, T>);
+  }
+  return createFirestoreCollection<T>(name);
+};
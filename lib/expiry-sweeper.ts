@@ -0,0 +1,115 @@
+import { isCancelledAccessExpired, isSuspendedAccessExpired } from '@/lib/billing-config';
+import { getCollection } from '@/lib/document-store';
+import { getTierRepository, TierEntity } from '@/lib/tier-repository';
+import { expireLapsedTrials } from '@/lib/trials';
+
+export type ExpiryReason = 'cancelled_subscription_ended' | 'suspended_access_expired' | 'trial_expired';
+
+export interface ExpirySweepChange {
+  userId: string;
+  reason: ExpiryReason;
+  status: 'expired' | 'skipped' | 'failed'; // skipped - renewed, converted or already expired since the query
+  fromTier: TierEntity['tier'] | null;
+  error?: string;
+}
+
+export interface ExpirySweepRun {
+  id: string;
+  trigger: 'cron' | 'admin';
+  startedAt: string; // UTC ISO
+  finishedAt: string; // UTC ISO
+  expiredCount: number;
+  skippedCount: number;
+  failedCount: number;
+  changes: ExpirySweepChange[]; // Only users the sweep touched or tried to
+}
+
+const expirySweeps = () => getCollection<ExpirySweepRun>('expirySweeps');
+
+// Per-reason candidate query and the check re-run inside each user's transaction
+const EXPIRY_RULES: Array<{
+  reason: Exclude<ExpiryReason, 'trial_expired'>;
+  findUserIds: (now: Date, limit: number) => Promise<string[]>;
+  isExpired: (tierData: TierEntity, now: Date) => boolean;
+  billingUpdates: Record<string, any>;
+}> = [
+  {
+    reason: 'cancelled_subscription_ended',
+    findUserIds: (now, limit) => getTierRepository().getEndedCancelledUserIds(now, limit),
+    isExpired: isCancelledAccessExpired,
+    // A later resubscription should send a fresh activation message
+    billingUpdates: { isConfirmationSent: false },
+  },
+  {
+    reason: 'suspended_access_expired',
+    findUserIds: (now, limit) => getTierRepository().getSuspendedExpiredUserIds(now, limit),
+    isExpired: isSuspendedAccessExpired,
+    billingUpdates: {},
+  },
+];
+
+// Move every user whose access has ended to NONE and record the run. Safe to run repeatedly or
+// concurrently - each user is re-checked in a transaction, so a second pass finds nothing to do.
+export const runExpirySweep = async (
+  { limit = 100, trigger = 'cron', now = new Date() }: { limit?: number; trigger?: ExpirySweepRun['trigger']; now?: Date } = {}
+): Promise<ExpirySweepRun> => {
+  const startedAt = new Date().toISOString();
+  const changes: ExpirySweepChange[] = [];
+
+  for (const rule of EXPIRY_RULES) {
+    for (const userId of await rule.findUserIds(now, limit)) {
+      try {
+        const expired = await getTierRepository().expireUserAccess(userId, {
+          isExpired: rule.isExpired,
+          billingUpdates: rule.billingUpdates,
+          audit: { trigger: 'system', reason: rule.reason, note: `Expiry sweep (${trigger})` },
+          now,
+        });
+        changes.push({ userId, reason: rule.reason, status: expired ? 'expired' : 'skipped', fromTier: expired?.tier || null });
+      } catch (error) {
+        console.error('Failed to expire user access', { userId, reason: rule.reason, error });
+        changes.push({
+          userId,
+          reason: rule.reason,
+          status: 'failed',
+          fromTier: null,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  for (const result of await expireLapsedTrials(limit, now)) {
+    changes.push({
+      userId: result.userId,
+      reason: 'trial_expired',
+      status: result.status,
+      fromTier: result.status === 'expired' ? 'TRIAL' : null,
+      ...(result.error && { error: result.error }),
+    });
+  }
+
+  const run: ExpirySweepRun = {
+    id: expirySweeps().newId(),
+    trigger,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    expiredCount: changes.filter((change) => change.status === 'expired').length,
+    skippedCount: changes.filter((change) => change.status === 'skipped').length,
+    failedCount: changes.filter((change) => change.status === 'failed').length,
+    changes,
+  };
+  await expirySweeps().set(run.id, run);
+
+  console.log('Expiry sweep finished', {
+    runId: run.id,
+    trigger,
+    expired: run.expiredCount,
+    skipped: run.skippedCount,
+    failed: run.failedCount
+  });
+  return run;
+};
+
+export const listExpirySweeps = async (limit: number = 20) =>
+  await expirySweeps().query({ orderBy: 'startedAt', direction: 'desc', limit });
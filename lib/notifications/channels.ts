@@ -0,0 +1,167 @@
+import fs from 'fs';
+import type { RenderedNotification } from '@/lib/notifications/templates';
+
+export type NotificationChannel = "sms" | "whatsapp" | "email" | "console";
+
+export interface NotificationRecipient {
+  phone: string | null; // E.164 without "+", e.g. 919700550849
+  email: string | null;
+}
+
+export interface ChannelAdapter {
+  channel: NotificationChannel;
+  // Address this channel sends to, or null when the recipient cannot be reached on it
+  resolveAddress: (recipient: NotificationRecipient) => string | null;
+  // Resolves with the provider's message id once the provider accepted the message; throws otherwise
+  send: (address: string, message: RenderedNotification) => Promise<{ providerMessageId: string | null }>;
+}
+
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['sms', 'whatsapp', 'email', 'console'];
+
+// Minimal HTTPS POST helper - resolves with the parsed body on 2xx, rejects with the provider error otherwise
+const postToProvider = async (
+  provider: string,
+  { hostname, path, headers, body }: { hostname: string; path: string; headers: Record<string, string>; body: string }
+): Promise<{ statusCode: number; data: any; headers: Record<string, string | string[] | undefined> }> => {
+  const https = await import('https');
+
+  return new Promise((resolve, reject) => {
+    const req = https.request({
+      hostname,
+      port: 443,
+      path,
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+    }, (res) => {
+      let data = '';
+      res.on('data', (chunk) => {
+        data += chunk;
+      });
+      res.on('end', () => {
+        if (res.statusCode && res.statusCode >= 200 && res.statusCode < 300) {
+          let parsed: any = null;
+          try {
+            parsed = data ? JSON.parse(data) : null;
+          } catch {
+            parsed = data;
+          }
+          resolve({ statusCode: res.statusCode, data: parsed, headers: res.headers });
+        } else {
+          reject(new Error(`${provider} API error: ${res.statusCode} - ${data.substring(0, 500)}`));
+        }
+      });
+    });
+
+    req.on('error', reject);
+    req.write(body);
+    req.end();
+  });
+};
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is not configured`);
+  }
+  return value;
+};
+
+// Twilio Messages API - shared by SMS and WhatsApp, which differ only in the address prefix
+const sendTwilioMessage = async (from: string, to: string, body: string) => {
+  const accountSid = requireEnv('TWILIO_ACCOUNT_SID');
+  const auth = Buffer.from(`${accountSid}:${requireEnv('TWILIO_AUTH_TOKEN')}`).toString('base64');
+
+  const { data } = await postToProvider('Twilio', {
+    hostname: 'api.twilio.com',
+    path: `/2010-04-01/Accounts/${accountSid}/Messages.json`,
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${auth}`,
+    },
+    body: new URLSearchParams({ From: from, To: to, Body: body }).toString(),
+  });
+
+  return { providerMessageId: data?.sid || null };
+};
+
+const smsAdapter: ChannelAdapter = {
+  channel: 'sms',
+  resolveAddress: (recipient) => (recipient.phone ? `+${recipient.phone}` : null),
+  send: (address, message) => sendTwilioMessage(requireEnv('TWILIO_SMS_FROM'), address, message.body),
+};
+
+const whatsappAdapter: ChannelAdapter = {
+  channel: 'whatsapp',
+  resolveAddress: (recipient) => (recipient.phone ? `whatsapp:+${recipient.phone}` : null),
+  send: (address, message) => sendTwilioMessage(`whatsapp:${requireEnv('TWILIO_WHATSAPP_FROM')}`, address, message.body),
+};
+
+// SendGrid v3 mail send - accepted messages return 202 with the id in a header
+const emailAdapter: ChannelAdapter = {
+  channel: 'email',
+  resolveAddress: (recipient) => recipient.email,
+  send: async (address, message) => {
+    const { headers } = await postToProvider('SendGrid', {
+      hostname: 'api.sendgrid.com',
+      path: '/v3/mail/send',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${requireEnv('SENDGRID_API_KEY')}`,
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: address }] }],
+        from: { email: requireEnv('NOTIFICATION_EMAIL_FROM') },
+        subject: message.subject,
+        content: [{ type: 'text/plain', value: message.body }],
+      }),
+    });
+
+    const messageId = headers['x-message-id'];
+    return { providerMessageId: (Array.isArray(messageId) ? messageId[0] : messageId) || null };
+  },
+};
+
+// Development adapter - logs the message and appends it to NOTIFICATION_LOG_FILE when set
+const consoleAdapter: ChannelAdapter = {
+  channel: 'console',
+  resolveAddress: (recipient) => recipient.email || recipient.phone || 'console',
+  send: async (address, message) => {
+    console.log('Notification (console channel)', { to: address, subject: message.subject, body: message.body });
+
+    const logFile = process.env.NOTIFICATION_LOG_FILE;
+    if (logFile) {
+      await fs.promises.appendFile(
+        logFile,
+        JSON.stringify({ to: address, ...message, sentAt: new Date().toISOString() }) + '\n'
+      );
+    }
+
+    return { providerMessageId: null };
+  },
+};
+
+const CHANNEL_ADAPTERS: Record<NotificationChannel, ChannelAdapter> = {
+  sms: smsAdapter,
+  whatsapp: whatsappAdapter,
+  email: emailAdapter,
+  console: consoleAdapter,
+};
+
+export const getChannelAdapter = (channel: NotificationChannel) => CHANNEL_ADAPTERS[channel];
+
+// NOTIFICATION_CHANNELS is a comma-separated list, e.g. "whatsapp,email" (defaults to console)
+export const getConfiguredChannels = (): NotificationChannel[] => {
+  const configured = (process.env.NOTIFICATION_CHANNELS || 'console')
+    .split(',')
+    .map((channel) => channel.trim().toLowerCase())
+    .filter(Boolean);
+
+  const unknown = configured.filter((channel) => !NOTIFICATION_CHANNELS.includes(channel as NotificationChannel));
+  if (unknown.length > 0) {
+    console.warn('Ignoring unknown notification channels', { unknown });
+  }
+
+  return Array.from(new Set(
+    configured.filter((channel): channel is NotificationChannel => NOTIFICATION_CHANNELS.includes(channel as NotificationChannel))
+  ));
+};
@@ -0,0 +1,72 @@
+import type { BillingInfo } from '@/lib/tier-repository';
+import { getChannelAdapter, getConfiguredChannels, NotificationRecipient } from '@/lib/notifications/channels';
+import { applySentEntryEffects, deliverOutboxEntry, enqueueNotifications, NewOutboxEntry } from '@/lib/notifications/outbox';
+import { NotificationData, NotificationTemplate, renderNotification } from '@/lib/notifications/templates';
+
+export type { NotificationTemplate, NotificationData } from '@/lib/notifications/templates';
+export type { NotificationChannel, NotificationRecipient } from '@/lib/notifications/channels';
+export { flushOutbox, listOutboxEntries } from '@/lib/notifications/outbox';
+export type { NotificationOutboxEntry, OutboxStatus } from '@/lib/notifications/outbox';
+
+// Usernames are phone numbers (e.g. 919700550849) - payments may also have recorded a contact
+export const resolveRecipient = (userId: string, billing?: BillingInfo | null): NotificationRecipient => {
+  const phone = billing?.contactPhone || (/^\d{10,15}$/.test(userId) ? userId : null);
+  return {
+    phone,
+    email: billing?.contactEmail || null,
+  };
+};
+
+// Queue a templated notification on every configured channel the user can be reached on, then try
+// to send it right away. Queue failures throw so the webhook is retried; send failures stay in the
+// outbox for flushOutbox. Returns true when at least one channel confirmed the send.
+export const notifyUser = async (
+  userId: string,
+  template: NotificationTemplate,
+  options: {
+    dedupeKey: string;
+    data: NotificationData;
+    recipient: NotificationRecipient;
+    marksConfirmationSent?: boolean;
+  }
+): Promise<boolean> => {
+  const message = renderNotification(template, options.data);
+
+  const entries: NewOutboxEntry[] = [];
+  for (const channel of getConfiguredChannels()) {
+    const address = getChannelAdapter(channel).resolveAddress(options.recipient);
+    if (!address) {
+      console.log('Skipping notification channel - no address for user', { userId, template, channel });
+      continue;
+    }
+    entries.push({
+      userId,
+      template,
+      dedupeKey: options.dedupeKey,
+      channel,
+      address,
+      subject: message.subject,
+      body: message.body,
+      marksConfirmationSent: options.marksConfirmationSent === true,
+    });
+  }
+
+  if (entries.length === 0) {
+    console.warn('No notification channel can reach user', { userId, template });
+    return false;
+  }
+
+  const queued = await enqueueNotifications(entries);
+
+  let sent = false;
+  for (const entry of queued) {
+    if (entry.status === 'sent') {
+      // Sent on an earlier delivery - its tier write may not have landed then
+      await applySentEntryEffects(entry);
+    }
+    const status = entry.status === 'sent' ? 'sent' : await deliverOutboxEntry(entry.id);
+    sent = sent || status === 'sent';
+  }
+
+  return sent;
+};
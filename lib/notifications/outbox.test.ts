@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { notifyUser } from '@/lib/notifications';
+import {
+  applySentEntryEffects,
+  deliverOutboxEntry,
+  enqueueNotifications,
+  getOutboxEntry,
+  NewOutboxEntry,
+} from '@/lib/notifications/outbox';
+import { createMemoryTierRepository, getTierRepository, setTierRepository } from '@/lib/tier-repository';
+
+let userCount = 0;
+let userId = '';
+
+// Outbox entries live in the shared memory collection, so each test gets its own user
+const newEntry = (overrides: Partial<NewOutboxEntry> = {}): NewOutboxEntry => ({
+  userId,
+  template: 'activation',
+  dedupeKey: 'sub_outbox',
+  channel: 'console',
+  address: userId,
+  subject: 'Subscription active',
+  body: 'Your subscription is active',
+  marksConfirmationSent: true,
+  ...overrides,
+});
+
+const isConfirmationSent = async () => (await getTierRepository().getUserTier(userId))?.billing?.isConfirmationSent;
+
+beforeEach(async () => {
+  userCount += 1;
+  userId = `91980000${String(userCount).padStart(4, '0')}`;
+
+  setTierRepository(createMemoryTierRepository());
+  await getTierRepository().createUserTier({
+    PK: `USER#${userId}`,
+    SK: 'TIER',
+    entityType: 'Tier',
+    userId,
+    tier: 'BASIC',
+    billing: {
+      renewalPeriod: 'MONTHLY',
+      trialStartDate: null,
+      trialEndDate: null,
+      subscriptionStartDate: null,
+      subscriptionEndDate: null,
+      isConfirmationSent: false,
+    },
+  });
+});
+
+afterEach(() => {
+  setTierRepository(null);
+});
+
+describe('enqueueNotifications', () => {
+  it('queues the same notification only once', async () => {
+    const [first] = await enqueueNotifications([newEntry()]);
+    const [second] = await enqueueNotifications([newEntry({ body: 'Changed body' })]);
+
+    expect(second.id).toBe(first.id);
+    expect(second.body).toBe('Your subscription is active');
+    expect(first).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+});
+
+describe('deliverOutboxEntry', () => {
+  it('sends once and marks the confirmation sent', async () => {
+    const [entry] = await enqueueNotifications([newEntry()]);
+
+    expect(await deliverOutboxEntry(entry.id)).toBe('sent');
+    expect(await getOutboxEntry(entry.id)).toMatchObject({ status: 'sent', attempts: 1 });
+    expect(await isConfirmationSent()).toBe(true);
+
+    expect(await deliverOutboxEntry(entry.id)).toBeNull();
+  });
+
+  it('leaves the confirmation flag alone for entries that do not mark it', async () => {
+    const [entry] = await enqueueNotifications([newEntry({ template: 'payment_failed', marksConfirmationSent: false })]);
+
+    expect(await deliverOutboxEntry(entry.id)).toBe('sent');
+    expect(await isConfirmationSent()).toBe(false);
+  });
+});
+
+describe('applySentEntryEffects', () => {
+  it('re-applies the flag when an earlier tier write was lost', async () => {
+    const [entry] = await enqueueNotifications([newEntry()]);
+    await deliverOutboxEntry(entry.id);
+    await getTierRepository().updateUserTierGeneric(userId, { 'billing.isConfirmationSent': false });
+
+    await applySentEntryEffects((await getOutboxEntry(entry.id))!);
+
+    expect(await isConfirmationSent()).toBe(true);
+  });
+
+  it('is applied again when notifyUser finds the notification already sent', async () => {
+    const options = {
+      dedupeKey: 'sub_notify',
+      data: { tier: 'BASIC' as const },
+      recipient: { phone: userId, email: null },
+      marksConfirmationSent: true,
+    };
+    expect(await notifyUser(userId, 'activation', options)).toBe(true);
+    await getTierRepository().updateUserTierGeneric(userId, { 'billing.isConfirmationSent': false });
+
+    expect(await notifyUser(userId, 'activation', options)).toBe(true);
+    expect(await isConfirmationSent()).toBe(true);
+  });
+});
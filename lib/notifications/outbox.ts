@@ -0,0 +1,191 @@
+import { getCollection } from '@/lib/document-store';
+import { getTierRepository } from '@/lib/tier-repository';
+import { getChannelAdapter, NotificationChannel } from '@/lib/notifications/channels';
+import type { NotificationTemplate } from '@/lib/notifications/templates';
+
+export type OutboxStatus = "pending" | "sending" | "sent" | "failed";
+
+export interface NotificationOutboxEntry {
+  id: string; // {userId}_{template}_{dedupeKey}_{channel} - the same notification is only ever queued once
+  userId: string;
+  template: NotificationTemplate;
+  dedupeKey: string; // What the notification is about, e.g. subscription or payment id
+  channel: NotificationChannel;
+  address: string; // Phone number, WhatsApp address or email the message goes to
+  subject: string;
+  body: string;
+  marksConfirmationSent: boolean; // Flip billing.isConfirmationSent once this is sent (see applySentEntryEffects)
+  status: OutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  providerMessageId: string | null;
+  createdAt: string; // UTC ISO
+  updatedAt: string; // UTC ISO
+  sentAt: string | null; // UTC ISO - when the provider accepted the message
+}
+
+export type NewOutboxEntry = Pick<
+  NotificationOutboxEntry,
+  'userId' | 'template' | 'dedupeKey' | 'channel' | 'address' | 'subject' | 'body' | 'marksConfirmationSent'
+>;
+
+const outbox = () => getCollection<NotificationOutboxEntry>('notificationOutbox');
+
+// Give up on an entry after this many failed sends - it stays in the outbox as "failed"
+const MAX_SEND_ATTEMPTS = 5;
+
+// A send stuck in "sending" longer than this is assumed dead and may be retried
+const SENDING_LOCK_MS = 2 * 60 * 1000;
+
+const outboxEntryId = (entry: Pick<NewOutboxEntry, 'userId' | 'template' | 'dedupeKey' | 'channel'>) =>
+  [entry.userId, entry.template, entry.dedupeKey, entry.channel].join('_').replace(/\//g, '-');
+
+export const getOutboxEntry = async (id: string) => await outbox().get(id);
+
+// Queue notifications, skipping any that were already queued. Returns every entry for the batch.
+export const enqueueNotifications = async (entries: NewOutboxEntry[]): Promise<NotificationOutboxEntry[]> => {
+  const ids = entries.map(outboxEntryId);
+
+  return outbox().transact(ids, (docs) => {
+    const now = new Date().toISOString();
+
+    // Entries already queued are returned as stored
+    const records = entries.map((entry, index): NotificationOutboxEntry => docs[index] || {
+      ...entry,
+      id: ids[index],
+      status: 'pending',
+      attempts: 0,
+      lastError: null,
+      providerMessageId: null,
+      createdAt: now,
+      updatedAt: now,
+      sentAt: null,
+    });
+
+    return {
+      writes: records.filter((_, index) => !docs[index]).map((record) => ({ id: record.id, data: record })),
+      result: records,
+    };
+  });
+};
+
+// Claim an entry for sending. Returns null when it was already sent, gave up, or another send is in flight.
+const claimOutboxEntry = async (id: string): Promise<NotificationOutboxEntry | null> => {
+  return outbox().transact<NotificationOutboxEntry | null>([id], ([entry]) => {
+    if (!entry) {
+      return { writes: [], result: null };
+    }
+
+    const isInFlight = entry.status === 'sending' &&
+      Date.now() - new Date(entry.updatedAt).getTime() < SENDING_LOCK_MS;
+    if (entry.status === 'sent' || entry.status === 'failed' || isInFlight) {
+      return { writes: [], result: null };
+    }
+
+    const claimed: NotificationOutboxEntry = {
+      ...entry,
+      status: 'sending',
+      attempts: entry.attempts + 1,
+      updatedAt: new Date().toISOString(),
+    };
+    return { writes: [{ id, data: claimed }], result: claimed };
+  });
+};
+
+// Flip billing.isConfirmationSent for a sent entry that marks it. Safe to repeat - an entry that is
+// already sent re-applies it (see notifyUser), so a failed tier write is made good on the next delivery.
+export const applySentEntryEffects = async (entry: NotificationOutboxEntry) => {
+  if (!entry.marksConfirmationSent) {
+    return;
+  }
+
+  const result = await getTierRepository().mutateTier(entry.userId, (tierData) =>
+    tierData.billing?.isConfirmationSent === true ? null : { updates: { 'billing.isConfirmationSent': true } }
+  );
+  if (result?.applied) {
+    console.log('Confirmation marked sent', { userId: entry.userId, id: entry.id });
+  }
+};
+
+// Mark the entry sent, then apply its side effects on the tier. The entry goes first so a failed
+// tier write can never get the message sent twice.
+const markOutboxEntrySent = async (entry: NotificationOutboxEntry, providerMessageId: string | null) => {
+  const now = new Date().toISOString();
+  await outbox().update(entry.id, {
+    status: 'sent',
+    providerMessageId,
+    lastError: null,
+    sentAt: now,
+    updatedAt: now,
+  });
+
+  await applySentEntryEffects(entry);
+};
+
+// Send one queued entry. Provider errors are recorded on the entry, never thrown.
+export const deliverOutboxEntry = async (id: string): Promise<OutboxStatus | null> => {
+  const entry = await claimOutboxEntry(id);
+  if (!entry) {
+    return null;
+  }
+
+  try {
+    const { providerMessageId } = await getChannelAdapter(entry.channel).send(entry.address, {
+      subject: entry.subject,
+      body: entry.body,
+    });
+
+    await markOutboxEntrySent(entry, providerMessageId);
+    console.log('Notification sent', {
+      id,
+      userId: entry.userId,
+      template: entry.template,
+      channel: entry.channel,
+      providerMessageId
+    });
+    return 'sent';
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const status: OutboxStatus = entry.attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'pending';
+
+    await outbox().update(id, {
+      status,
+      lastError: message,
+      updatedAt: new Date().toISOString(),
+    });
+
+    console.error('Notification send failed', {
+      id,
+      userId: entry.userId,
+      template: entry.template,
+      channel: entry.channel,
+      attempts: entry.attempts,
+      status,
+      error: message
+    });
+    return status;
+  }
+};
+
+export const listOutboxEntries = async (status: OutboxStatus | null = 'pending', limit: number = 50) =>
+  await outbox().query({ where: status ? { status } : {}, orderBy: 'createdAt', direction: 'desc', limit });
+
+// Retry pending entries and sends that died mid-flight, oldest first
+export const flushOutbox = async (limit: number = 50) => {
+  const [pendingEntries, sendingEntries] = await Promise.all([
+    outbox().query({ where: { status: 'pending' }, orderBy: 'createdAt', limit }),
+    outbox().query({ where: { status: 'sending' }, orderBy: 'createdAt', limit }),
+  ]);
+
+  const ids = [...pendingEntries, ...sendingEntries]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, limit)
+    .map((entry) => entry.id);
+
+  const results: { id: string; status: OutboxStatus | null }[] = [];
+  for (const id of ids) {
+    results.push({ id, status: await deliverOutboxEntry(id) });
+  }
+
+  return results;
+};
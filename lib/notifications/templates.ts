@@ -0,0 +1,93 @@
+export type NotificationTemplate =
+  | "activation"
+  | "renewal"
+  | "cancellation"
+  | "payment_failed"
+  | "plan_change"
+  | "trial_started"
+  | "trial_expired";
+
+export interface NotificationData {
+  tier?: "NONE" | "BASIC" | "PRO" | "TRIAL";
+  previousTier?: "NONE" | "BASIC" | "PRO" | "TRIAL" | null;
+  renewalPeriod?: "MONTHLY" | "ANNUAL" | null;
+  previousRenewalPeriod?: "MONTHLY" | "ANNUAL" | null;
+  amount?: number | null; // in paise
+  currency?: string | null;
+  periodEnd?: string | null; // UTC ISO - end of the current billing period / access
+  failureReason?: string | null;
+}
+
+export interface RenderedNotification {
+  subject: string; // Used by email, ignored by SMS/WhatsApp
+  body: string;
+}
+
+const formatAmount = (amount?: number | null, currency?: string | null) => {
+  if (typeof amount !== 'number') {
+    return null;
+  }
+  const value = (amount / 100).toFixed(2);
+  return !currency || currency === 'INR' ? `₹${value}` : `${currency} ${value}`;
+};
+
+const formatDate = (isoDate?: string | null) =>
+  isoDate
+    ? new Date(isoDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' })
+    : null;
+
+const formatPlan = (tier?: string | null, renewalPeriod?: string | null) =>
+  [tier, renewalPeriod?.toLowerCase()].filter(Boolean).join(' ') || 'your plan';
+
+// Keep messages short enough for a single SMS segment where possible
+export const renderNotification = (template: NotificationTemplate, data: NotificationData): RenderedNotification => {
+  const plan = formatPlan(data.tier, data.renewalPeriod);
+  const amount = formatAmount(data.amount, data.currency);
+  const periodEnd = formatDate(data.periodEnd);
+
+  switch (template) {
+    case 'activation':
+      return {
+        subject: `Your ${plan} subscription is active`,
+        body: `Your ${plan} subscription is now active.${periodEnd ? ` Next renewal on ${periodEnd}.` : ''}`,
+      };
+
+    case 'renewal':
+      return {
+        subject: `Your ${plan} subscription has renewed`,
+        body: `We received your payment${amount ? ` of ${amount}` : ''} and renewed your ${plan} subscription.${periodEnd ? ` It is active until ${periodEnd}.` : ''}`,
+      };
+
+    case 'cancellation':
+      return {
+        subject: `Your ${plan} subscription has been cancelled`,
+        body: periodEnd
+          ? `Your ${plan} subscription has been cancelled. You keep access until ${periodEnd}.`
+          : `Your ${plan} subscription has been cancelled.`,
+      };
+
+    case 'payment_failed':
+      return {
+        subject: 'Your payment could not be processed',
+        body: `Your payment${amount ? ` of ${amount}` : ''} for ${plan} failed${data.failureReason ? `: ${data.failureReason}` : ''}. Please update your payment method to keep your subscription active.`,
+      };
+
+    case 'plan_change':
+      return {
+        subject: `Your plan changed to ${plan}`,
+        body: `Your subscription changed from ${formatPlan(data.previousTier, data.previousRenewalPeriod)} to ${plan}.${periodEnd ? ` Current period ends on ${periodEnd}.` : ''}`,
+      };
+
+    case 'trial_started':
+      return {
+        subject: 'Your free trial has started',
+        body: `Your free trial is active${periodEnd ? ` until ${periodEnd}` : ''}. Subscribe any time to keep your access.`,
+      };
+
+    case 'trial_expired':
+      return {
+        subject: 'Your free trial has ended',
+        body: 'Your free trial has ended. Subscribe to a plan to continue.',
+      };
+  }
+};
@@ -0,0 +1,76 @@
+import { getCollection } from '@/lib/document-store';
+
+export type PaymentStatus = 'created' | 'authorized' | 'captured' | 'refunded' | 'failed';
+
+export interface PaymentRecord {
+  PK: string; // USER#{userId}
+  SK: string; // PAYMENT#{paymentId}
+  entityType: "Payment";
+  userId: string;
+  paymentId: string; // Razorpay payment ID
+  amount: number; // in paise
+  currency: string;
+  status: PaymentStatus;
+  method: string | null; // upi, card, netbanking, wallet, etc.
+  orderId: string | null;
+  invoiceId: string | null;
+  subscriptionId: string | null;
+  errorCode: string | null;
+  errorDescription: string | null;
+  errorReason: string | null;
+  paymentCreatedAt: string; // UTC ISO - when Razorpay created the payment
+  createdAt: string; // UTC ISO
+  updatedAt: string; // UTC ISO
+}
+
+const payments = () => getCollection<PaymentRecord>('payments');
+
+// Later states win - a late payment.authorized must not overwrite payment.captured
+const PAYMENT_STATUS_RANK: Record<PaymentStatus, number> = {
+  created: 0,
+  authorized: 1,
+  captured: 2,
+  failed: 2,
+  refunded: 3,
+};
+
+export const upsertPaymentRecord = async (
+  data: Omit<PaymentRecord, 'PK' | 'SK' | 'entityType' | 'createdAt' | 'updatedAt'>
+) => {
+  const { record, kept } = await payments().transact([data.paymentId], ([existing]) => {
+    const now = new Date().toISOString();
+
+    if (existing && PAYMENT_STATUS_RANK[existing.status] > PAYMENT_STATUS_RANK[data.status]) {
+      return { writes: [], result: { record: existing, kept: true } };
+    }
+
+    const record: PaymentRecord = {
+      PK: `USER#${data.userId}`,
+      SK: `PAYMENT#${data.paymentId}`,
+      entityType: "Payment",
+      ...data,
+      // Keep links learned from earlier events (e.g. subscription id from subscription.charged)
+      orderId: data.orderId || existing?.orderId || null,
+      invoiceId: data.invoiceId || existing?.invoiceId || null,
+      subscriptionId: data.subscriptionId || existing?.subscriptionId || null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+
+    return { writes: [{ id: data.paymentId, data: record }], result: { record, kept: false } };
+  });
+
+  if (kept) {
+    console.log('Keeping newer payment status', {
+      paymentId: data.paymentId,
+      storedStatus: record.status,
+      incomingStatus: data.status
+    });
+  } else {
+    console.log('Payment record saved', { paymentId: data.paymentId, userId: data.userId, status: data.status });
+  }
+  return record;
+};
+
+export const getUserPayments = async (userId: string, limit: number = 20) =>
+  await payments().query({ where: { PK: `USER#${userId}` }, orderBy: 'paymentCreatedAt', direction: 'desc', limit });
@@ -0,0 +1,235 @@
+import { getCollection, getStorageBackend, StorageBackend } from '@/lib/document-store';
+import defaultCatalog from '@/lib/plan-catalog.default.json';
+
+export type RazorpayMode = "test" | "live";
+
+// Default order of tiers when classifying plan changes - a catalog plan can override it with rank
+export const TIER_RANKS: Record<"NONE" | "TRIAL" | "BASIC" | "PRO", number> = {
+  NONE: 0,
+  TRIAL: 0,
+  BASIC: 1,
+  PRO: 2,
+};
+
+export interface CatalogPlan {
+  key: string; // e.g. PRO_MONTHLY - document id in the plans collection
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  amount: number; // in paise, per billing cycle
+  currency: string;
+  displayName: string;
+  description?: string | null;
+  features: string[];
+  status: "active" | "archived"; // Archived plans are not sold but still resolve for existing subscribers
+  rank?: number; // Higher ranks are better plans - defaults to TIER_RANKS[tier]
+  razorpayPlanIds: Record<RazorpayMode, string | null>; // Razorpay plan per account mode
+  updatedAt?: string; // UTC ISO
+}
+
+export interface PlanDetails {
+  planId: string; // Razorpay plan ID for the current mode
+  key: string;
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  amount: number; // in paise
+  currency: string;
+  displayName: string;
+  status: "active" | "archived";
+  rank: number;
+}
+
+// Plan shape served to the browser
+export interface PublicPlan {
+  key: string;
+  razorpayPlanId: string;
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  amount: number; // in paise
+  currency: string;
+  displayName: string;
+  description: string | null;
+  features: string[];
+}
+
+const plansCollection = () => getCollection<CatalogPlan>('plans');
+
+// Where the catalog was loaded from - the configured storage, or the bundled default
+type CatalogSource = StorageBackend | 'default';
+
+// How long a loaded catalog is reused before the plans collection is read again
+const CATALOG_CACHE_MS = Number(process.env.PLAN_CATALOG_CACHE_SECONDS ?? 60) * 1000;
+
+let cachedCatalog: { plans: CatalogPlan[]; source: CatalogSource; loadedAt: number } | null = null;
+
+// RAZORPAY_MODE wins; otherwise the key prefix (rzp_test_ / rzp_live_) decides
+export const getRazorpayMode = (): RazorpayMode => {
+  const configured = process.env.RAZORPAY_MODE;
+  if (configured === 'test' || configured === 'live') {
+    return configured;
+  }
+  return process.env.RAZORPAY_ID?.startsWith('rzp_live_') ? 'live' : 'test';
+};
+
+export const getDefaultCatalogPlans = () => defaultCatalog.plans as CatalogPlan[];
+
+// The plans collection replaces the bundled catalog as soon as it has any documents
+const loadCatalog = async (): Promise<{ plans: CatalogPlan[]; source: CatalogSource; failed: boolean }> => {
+  try {
+    const plans = await plansCollection().query();
+    if (plans.length > 0) {
+      return { plans, source: getStorageBackend(), failed: false };
+    }
+    return { plans: getDefaultCatalogPlans(), source: 'default', failed: false };
+  } catch (error) {
+    console.error('Failed to load plan catalog - using bundled catalog', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return { plans: getDefaultCatalogPlans(), source: 'default', failed: true };
+  }
+};
+
+export const getPlanCatalog = async ({ includeArchived = false }: { includeArchived?: boolean } = {}) => {
+  if (!cachedCatalog || Date.now() - cachedCatalog.loadedAt > CATALOG_CACHE_MS) {
+    const { plans, source, failed } = await loadCatalog();
+    // Retry the plans collection on the next call instead of pinning the fallback for a whole cache window
+    cachedCatalog = failed ? null : { plans, source, loadedAt: Date.now() };
+    return { source, plans: plans.filter((plan) => includeArchived || plan.status === 'active') };
+  }
+
+  return {
+    source: cachedCatalog.source,
+    plans: cachedCatalog.plans.filter((plan) => includeArchived || plan.status === 'active'),
+  };
+};
+
+// Drop the cached catalog after the plans collection changes
+export const invalidatePlanCatalog = () => {
+  cachedCatalog = null;
+};
+
+export const getRazorpayPlanId = (plan: CatalogPlan, mode: RazorpayMode = getRazorpayMode()) =>
+  plan.razorpayPlanIds?.[mode] || null;
+
+const toPlanDetails = (plan: CatalogPlan, planId: string): PlanDetails => ({
+  planId,
+  key: plan.key,
+  tier: plan.tier,
+  renewalPeriod: plan.renewalPeriod,
+  amount: plan.amount,
+  currency: plan.currency,
+  displayName: plan.displayName,
+  status: plan.status,
+  rank: plan.rank ?? TIER_RANKS[plan.tier],
+});
+
+// Resolve a Razorpay plan ID, including archived plans that existing subscriptions still use
+export const getPlanDetails = async (planId: string): Promise<PlanDetails | null> => {
+  const { plans } = await getPlanCatalog({ includeArchived: true });
+  const plan = plans.find((candidate) => getRazorpayPlanId(candidate) === planId);
+  return plan ? toPlanDetails(plan, planId) : null;
+};
+
+// Find the plan sold for a tier and renewal period. Archived plans are only considered when
+// includeArchived is set, and an active plan always wins over an archived one.
+export const findPlan = async (
+  tier: string,
+  renewalPeriod: string,
+  { includeArchived = false }: { includeArchived?: boolean } = {}
+): Promise<PlanDetails | null> => {
+  const { plans } = await getPlanCatalog({ includeArchived });
+  const matches = plans
+    .filter((plan) => plan.tier === tier && plan.renewalPeriod === renewalPeriod && getRazorpayPlanId(plan))
+    .sort((a, b) => (a.status === b.status ? 0 : a.status === 'active' ? -1 : 1));
+
+  return matches[0] ? toPlanDetails(matches[0], getRazorpayPlanId(matches[0])!) : null;
+};
+
+// Every plan currently sold, one per tier and renewal period
+export const listActivePlans = async (): Promise<PlanDetails[]> => {
+  const { plans } = await getPlanCatalog();
+  const sold = new Map<string, PlanDetails>();
+  for (const plan of plans) {
+    const planId = getRazorpayPlanId(plan);
+    const slot = `${plan.tier}_${plan.renewalPeriod}`;
+    // Same pick as findPlan when two active plans share a tier and period
+    if (planId && !sold.has(slot)) {
+      sold.set(slot, toPlanDetails(plan, planId));
+    }
+  }
+  return [...sold.values()];
+};
+
+export const toPublicPlan = (plan: CatalogPlan): PublicPlan | null => {
+  const razorpayPlanId = getRazorpayPlanId(plan);
+  if (!razorpayPlanId) {
+    return null;
+  }
+
+  return {
+    key: plan.key,
+    razorpayPlanId,
+    tier: plan.tier,
+    renewalPeriod: plan.renewalPeriod,
+    amount: plan.amount,
+    currency: plan.currency,
+    displayName: plan.displayName,
+    description: plan.description || null,
+    features: plan.features || [],
+  };
+};
+
+// Returns a reason when the plan cannot be stored in the catalog
+export const validateCatalogPlan = (plan: Partial<CatalogPlan>): string | null => {
+  if (!plan.key || !/^[A-Z0-9_]+$/.test(plan.key)) {
+    return 'key must be upper-case letters, digits and underscores';
+  }
+  if (plan.tier !== 'BASIC' && plan.tier !== 'PRO') {
+    return 'tier must be BASIC or PRO';
+  }
+  if (plan.renewalPeriod !== 'MONTHLY' && plan.renewalPeriod !== 'ANNUAL') {
+    return 'renewalPeriod must be MONTHLY or ANNUAL';
+  }
+  if (typeof plan.amount !== 'number' || !Number.isInteger(plan.amount) || plan.amount <= 0) {
+    return 'amount must be a positive integer in paise';
+  }
+  if (!plan.currency || !plan.displayName) {
+    return 'currency and displayName are required';
+  }
+  if (!Array.isArray(plan.features)) {
+    return 'features must be an array';
+  }
+  if (plan.status !== 'active' && plan.status !== 'archived') {
+    return 'status must be active or archived';
+  }
+  if (plan.rank !== undefined && (!Number.isInteger(plan.rank) || plan.rank < 1)) {
+    return 'rank must be a positive integer';
+  }
+  if (!plan.razorpayPlanIds || (!plan.razorpayPlanIds.test && !plan.razorpayPlanIds.live)) {
+    return 'razorpayPlanIds needs a test or live plan ID';
+  }
+  return null;
+};
+
+// Write a plan to the catalog. The first write seeds the collection with the bundled catalog so
+// the other plans keep resolving once the collection takes over - without overwriting a plan a
+// concurrent first write already stored.
+export const upsertCatalogPlan = async (plan: CatalogPlan) => {
+  const plans = plansCollection();
+  const now = new Date().toISOString();
+
+  const isSeeded = (await plans.query({ limit: 1 })).length > 0;
+  const seedPlans = isSeeded ? [] : getDefaultCatalogPlans().filter((defaultPlan) => defaultPlan.key !== plan.key);
+
+  await plans.transact(seedPlans.map((seedPlan) => seedPlan.key), (docs) => ({
+    writes: [
+      ...seedPlans
+        .filter((_, index) => !docs[index])
+        .map((seedPlan) => ({ id: seedPlan.key, data: { ...seedPlan, updatedAt: now } })),
+      { id: plan.key, data: { ...plan, updatedAt: now } },
+    ],
+    result: null,
+  }));
+
+  invalidatePlanCatalog();
+  console.log('Plan catalog updated', { key: plan.key, status: plan.status, amount: plan.amount });
+};
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { PlanDetails } from '@/lib/plan-catalog';
+import { classifyPlanChange, evaluatePlanChange, getPolicySchedule, PLAN_CHANGE_POLICY } from '@/lib/plan-change-policy';
+
+const plan = (tier: PlanDetails['tier'], renewalPeriod: PlanDetails['renewalPeriod'], amount: number): PlanDetails => ({
+  planId: `plan_${tier}_${renewalPeriod}`,
+  key: `${tier}_${renewalPeriod}`,
+  tier,
+  renewalPeriod,
+  amount,
+  currency: 'INR',
+  displayName: tier,
+  status: 'active',
+  rank: tier === 'PRO' ? 2 : 1,
+});
+
+const BASIC_MONTHLY = plan('BASIC', 'MONTHLY', 8900);
+const BASIC_ANNUAL = plan('BASIC', 'ANNUAL', 74900);
+const PRO_MONTHLY = plan('PRO', 'MONTHLY', 12900);
+const PRO_ANNUAL = plan('PRO', 'ANNUAL', 129900);
+
+const now = new Date('2026-06-15T00:00:00.000Z');
+
+const evaluate = (currentPlan: PlanDetails, targetPlan: PlanDetails, paymentMethod: string, lastUpgradeAt: string | null = null) =>
+  evaluatePlanChange({
+    currentTier: currentPlan.tier,
+    currentRenewalPeriod: currentPlan.renewalPeriod,
+    currentPlan,
+    targetPlan,
+    paymentMethod,
+    lastUpgradeAt,
+    now,
+  });
+
+describe('classifyPlanChange', () => {
+  it('classifies by rank, and the same tier as a period change', () => {
+    expect(classifyPlanChange({ tier: 'BASIC', plan: BASIC_MONTHLY }, PRO_MONTHLY)).toBe('upgrade');
+    expect(classifyPlanChange({ tier: 'PRO', plan: PRO_ANNUAL }, BASIC_ANNUAL)).toBe('downgrade');
+    expect(classifyPlanChange({ tier: 'BASIC', plan: BASIC_MONTHLY }, BASIC_ANNUAL)).toBe('period_change');
+  });
+
+  it('falls back to tier ranks when the current plan left the catalog', () => {
+    expect(classifyPlanChange({ tier: 'BASIC', plan: null }, PRO_ANNUAL)).toBe('upgrade');
+  });
+
+  it('compares monthly-equivalent prices between plans of equal rank', () => {
+    const cheaperPro: PlanDetails = { ...BASIC_MONTHLY, tier: 'PRO', rank: 1 }; // 8900 a month
+    const pricierBasic: PlanDetails = { ...PRO_ANNUAL, tier: 'BASIC', rank: 1 }; // 10825 a month
+    expect(classifyPlanChange({ tier: 'PRO', plan: cheaperPro }, pricierBasic)).toBe('upgrade');
+    expect(classifyPlanChange({ tier: 'BASIC', plan: pricierBasic }, cheaperPro)).toBe('downgrade');
+  });
+});
+
+describe('getPolicySchedule', () => {
+  it('waits for the cycle end on downgrades and annual to monthly switches', () => {
+    expect(getPolicySchedule('downgrade', 'MONTHLY', 'MONTHLY')).toBe('cycle_end');
+    expect(getPolicySchedule('period_change', 'ANNUAL', 'MONTHLY')).toBe('cycle_end');
+    expect(getPolicySchedule('period_change', 'MONTHLY', 'ANNUAL')).toBe('now');
+    expect(getPolicySchedule('upgrade', 'MONTHLY', 'MONTHLY')).toBe('now');
+  });
+});
+
+describe('evaluatePlanChange', () => {
+  it('blocks a change to the current plan', () => {
+    expect(evaluate(PRO_MONTHLY, PRO_MONTHLY, 'card')).toMatchObject({ allowed: false, code: 'same_plan' });
+  });
+
+  it('hands UPI changes over to a new mandate and updates other methods in place', () => {
+    expect(evaluate(BASIC_MONTHLY, PRO_MONTHLY, 'upi')).toEqual({
+      allowed: true,
+      changeType: 'upgrade',
+      scheduleChangeAt: 'now',
+      mechanism: 'handover',
+    });
+    expect(evaluate(BASIC_MONTHLY, PRO_MONTHLY, 'card')).toMatchObject({ allowed: true, mechanism: 'update' });
+  });
+
+  it('schedules a downgrade for the cycle end', () => {
+    expect(evaluate(PRO_MONTHLY, BASIC_MONTHLY, 'card')).toMatchObject({ allowed: true, scheduleChangeAt: 'cycle_end' });
+  });
+
+  it('blocks a downgrade during the cooldown after an upgrade', () => {
+    const lastUpgradeAt = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString();
+    const availableAt = new Date(
+      new Date(lastUpgradeAt).getTime() + PLAN_CHANGE_POLICY.downgradeCooldownDays * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    expect(evaluate(PRO_MONTHLY, BASIC_MONTHLY, 'card', lastUpgradeAt)).toMatchObject({
+      allowed: false,
+      code: 'downgrade_cooldown',
+      availableAt,
+    });
+    expect(evaluate(PRO_MONTHLY, PRO_ANNUAL, 'card', lastUpgradeAt)).toMatchObject({ allowed: true });
+  });
+});
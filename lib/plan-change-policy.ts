@@ -0,0 +1,210 @@
+import { getTierRepository, TierEntity } from '@/lib/tier-repository';
+import { listActivePlans, PlanDetails, TIER_RANKS } from '@/lib/plan-catalog';
+import type { PlanChangeSchedule, PlanChangeType } from '@/lib/plan-change';
+
+// How a payment method carries out a plan change: Razorpay updates the subscription in place,
+// or a new mandate replaces it (UPI mandates cannot change amount)
+export type PlanChangeMechanism = 'update' | 'handover';
+
+export interface PaymentMethodPolicy {
+  allowedChangeTypes: PlanChangeType[];
+  mechanism: PlanChangeMechanism;
+}
+
+export interface PlanChangePolicyConfig {
+  downgradeCooldownDays: number; // No downgrade within this many days of an upgrade; 0 disables the rule
+  // Changes that would forfeit paid time wait for the end of the current cycle
+  cycleEndOnly: { downgrade: boolean; annualToMonthly: boolean };
+  paymentMethods: Record<string, PaymentMethodPolicy>; // Keyed by billing.paymentMethod
+  defaultPaymentMethod: PaymentMethodPolicy;
+}
+
+const ALL_CHANGE_TYPES: PlanChangeType[] = ['upgrade', 'downgrade', 'period_change'];
+
+export const PLAN_CHANGE_POLICY: PlanChangePolicyConfig = {
+  downgradeCooldownDays: Number(process.env.DOWNGRADE_COOLDOWN_DAYS ?? 7),
+  cycleEndOnly: { downgrade: true, annualToMonthly: true },
+  paymentMethods: {
+    upi: { allowedChangeTypes: ALL_CHANGE_TYPES, mechanism: 'handover' },
+  },
+  defaultPaymentMethod: { allowedChangeTypes: ALL_CHANGE_TYPES, mechanism: 'update' },
+};
+
+export type PlanChangeBlockCode = 'same_plan' | 'payment_method' | 'downgrade_cooldown';
+
+export type PlanChangeDecision =
+  | {
+    allowed: true;
+    changeType: PlanChangeType;
+    scheduleChangeAt: PlanChangeSchedule;
+    mechanism: PlanChangeMechanism;
+  }
+  | {
+    allowed: false;
+    changeType: PlanChangeType;
+    code: PlanChangeBlockCode;
+    reason: string;
+    availableAt: string | null; // UTC ISO - when a blocked change becomes possible, if it will
+  };
+
+export interface PlanChangePolicyInput {
+  currentTier: TierEntity['tier'];
+  currentRenewalPeriod: "MONTHLY" | "ANNUAL" | null;
+  currentPlan: PlanDetails | null; // null when the recorded plan is no longer in the catalog
+  targetPlan: PlanDetails;
+  paymentMethod: string;
+  lastUpgradeAt: string | null; // UTC ISO - most recent applied upgrade
+  now?: Date;
+}
+
+// A plan the user could move to, as returned to clients
+export interface AvailablePlanChange {
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  planId: string;
+  amount: number; // in paise
+  currency: string;
+  displayName: string;
+  changeType: PlanChangeType;
+  scheduleChangeAt: PlanChangeSchedule | null; // null when blocked
+  allowed: boolean;
+  reason: string | null; // Why the change is blocked
+  availableAt: string | null; // UTC ISO - when a blocked change becomes possible
+}
+
+export const getPaymentMethodPolicy = (paymentMethod: string): PaymentMethodPolicy =>
+  PLAN_CHANGE_POLICY.paymentMethods[paymentMethod] || PLAN_CHANGE_POLICY.defaultPaymentMethod;
+
+// Monthly-equivalent price, so plans on different periods compare fairly
+const monthlyPrice = (plan: PlanDetails) => plan.renewalPeriod === 'ANNUAL' ? plan.amount / 12 : plan.amount;
+
+// Upgrade or downgrade by rank; plans of equal rank on different tiers fall back to price
+export const classifyPlanChange = (
+  current: { tier: string; plan: PlanDetails | null },
+  target: PlanDetails
+): PlanChangeType => {
+  if (current.tier === target.tier) {
+    return 'period_change';
+  }
+
+  const currentRank = current.plan?.rank ?? TIER_RANKS[current.tier as keyof typeof TIER_RANKS] ?? 0;
+  if (currentRank !== target.rank) {
+    return target.rank > currentRank ? 'upgrade' : 'downgrade';
+  }
+  return current.plan && monthlyPrice(target) > monthlyPrice(current.plan) ? 'upgrade' : 'downgrade';
+};
+
+// Downgrades and annual -> monthly switches wait for the cycle end so paid time is not lost
+export const getPolicySchedule = (
+  changeType: PlanChangeType,
+  currentPeriod: string | null,
+  targetPeriod: string
+): PlanChangeSchedule => {
+  const { cycleEndOnly } = PLAN_CHANGE_POLICY;
+  if (cycleEndOnly.downgrade && changeType === 'downgrade') {
+    return 'cycle_end';
+  }
+  if (cycleEndOnly.annualToMonthly && currentPeriod === 'ANNUAL' && targetPeriod === 'MONTHLY') {
+    return 'cycle_end';
+  }
+  return 'now';
+};
+
+// Apply every policy rule to one candidate change. Pure - callers load the inputs.
+export const evaluatePlanChange = (input: PlanChangePolicyInput): PlanChangeDecision => {
+  const { currentTier, currentRenewalPeriod, currentPlan, targetPlan, paymentMethod, lastUpgradeAt } = input;
+  const now = input.now || new Date();
+  const changeType = classifyPlanChange({ tier: currentTier, plan: currentPlan }, targetPlan);
+
+  if (currentTier === targetPlan.tier && currentRenewalPeriod === targetPlan.renewalPeriod) {
+    return { allowed: false, changeType, code: 'same_plan', reason: 'User is already on this plan', availableAt: null };
+  }
+
+  const methodPolicy = getPaymentMethodPolicy(paymentMethod);
+  if (!methodPolicy.allowedChangeTypes.includes(changeType)) {
+    return {
+      allowed: false,
+      changeType,
+      code: 'payment_method',
+      reason: `A ${changeType.replace('_', ' ')} is not available for ${paymentMethod.toUpperCase()} subscriptions`,
+      availableAt: null,
+    };
+  }
+
+  const cooldownMs = PLAN_CHANGE_POLICY.downgradeCooldownDays * 24 * 60 * 60 * 1000;
+  if (changeType === 'downgrade' && cooldownMs > 0 && lastUpgradeAt) {
+    const availableAt = new Date(new Date(lastUpgradeAt).getTime() + cooldownMs);
+    if (availableAt > now) {
+      return {
+        allowed: false,
+        changeType,
+        code: 'downgrade_cooldown',
+        reason: `Downgrades are available ${PLAN_CHANGE_POLICY.downgradeCooldownDays} days after an upgrade`,
+        availableAt: availableAt.toISOString(),
+      };
+    }
+  }
+
+  return {
+    allowed: true,
+    changeType,
+    scheduleChangeAt: getPolicySchedule(changeType, currentRenewalPeriod, targetPlan.renewalPeriod),
+    mechanism: methodPolicy.mechanism,
+  };
+};
+
+// Most recent upgrade actually applied (not just requested) between paid tiers
+export const getLastUpgradeAt = async (userId: string): Promise<string | null> => {
+  const history = await getTierRepository().getTierHistory(userId, 25);
+  const upgrade = history?.find((entry) =>
+    entry.trigger !== 'user_request' &&
+    entry.fromTier &&
+    TIER_RANKS[entry.fromTier] > 0 &&
+    TIER_RANKS[entry.toTier] > TIER_RANKS[entry.fromTier]
+  );
+  return upgrade?.createdAt || null;
+};
+
+// Every catalog plan the user could move to, split by whether the policy allows it right now
+export const getAvailableChanges = async (
+  currentTier: TierEntity,
+  currentPlan: PlanDetails | null,
+  { lastUpgradeAt, now }: { lastUpgradeAt?: string | null; now?: Date } = {}
+): Promise<{ availableChanges: AvailablePlanChange[]; blockedChanges: AvailablePlanChange[] }> => {
+  const resolvedLastUpgradeAt = lastUpgradeAt !== undefined ? lastUpgradeAt : await getLastUpgradeAt(currentTier.userId);
+  const options: AvailablePlanChange[] = [];
+
+  for (const targetPlan of await listActivePlans()) {
+    const decision = evaluatePlanChange({
+      currentTier: currentTier.tier,
+      currentRenewalPeriod: currentTier.billing?.renewalPeriod || null,
+      currentPlan,
+      targetPlan,
+      paymentMethod: currentTier.billing?.paymentMethod || 'upi',
+      lastUpgradeAt: resolvedLastUpgradeAt,
+      now,
+    });
+    if (!decision.allowed && decision.code === 'same_plan') {
+      continue;
+    }
+
+    options.push({
+      tier: targetPlan.tier,
+      renewalPeriod: targetPlan.renewalPeriod,
+      planId: targetPlan.planId,
+      amount: targetPlan.amount,
+      currency: targetPlan.currency,
+      displayName: targetPlan.displayName,
+      changeType: decision.changeType,
+      scheduleChangeAt: decision.allowed ? decision.scheduleChangeAt : null,
+      allowed: decision.allowed,
+      reason: decision.allowed ? null : decision.reason,
+      availableAt: decision.allowed ? null : decision.availableAt,
+    });
+  }
+
+  return {
+    availableChanges: options.filter((option) => option.allowed),
+    blockedChanges: options.filter((option) => !option.allowed),
+  };
+};
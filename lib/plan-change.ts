@@ -0,0 +1,229 @@
+import { isPlanHandoverInFlight } from '@/lib/billing-config';
+import { getTierRepository, TierEntity } from '@/lib/tier-repository';
+import { findPlan, getPlanDetails, PlanDetails } from '@/lib/plan-catalog';
+import {
+  evaluatePlanChange,
+  getAvailableChanges,
+  getLastUpgradeAt,
+  PlanChangeMechanism,
+} from '@/lib/plan-change-policy';
+import { calculatePlanChangeProration, ProrationResult } from '@/lib/proration';
+
+export type PlanChangeType = 'upgrade' | 'downgrade' | 'period_change';
+
+// When Razorpay applies the change: now (prorated) or at the end of the paid cycle
+export type PlanChangeSchedule = 'now' | 'cycle_end';
+
+export interface PlanChangeRequest {
+  username: string;
+  targetTier: "BASIC" | "PRO";
+  targetRenewalPeriod: "MONTHLY" | "ANNUAL";
+}
+
+// Everything a validated plan change needs, shared by change-plan and its preview
+export interface PlanChangeContext {
+  username: string;
+  currentTier: TierEntity & { id: string };
+  currentTierType: TierEntity['tier'];
+  currentRenewalPeriod: "MONTHLY" | "ANNUAL" | null;
+  currentSubscriptionId: string | null;
+  currentPlanDetails: PlanDetails | null;
+  targetTier: "BASIC" | "PRO";
+  targetRenewalPeriod: "MONTHLY" | "ANNUAL";
+  newPlanId: string;
+  newPlanDetails: PlanDetails;
+  paymentMethod: string;
+  billingEndDate: string | null;
+  changeType: PlanChangeType;
+  scheduleChangeAt: PlanChangeSchedule;
+  mechanism: PlanChangeMechanism;
+}
+
+export type PlanChangeValidation =
+  | { ok: true; context: PlanChangeContext }
+  | { ok: false; status: number; body: Record<string, any> };
+
+// A running paid subscription that Razorpay is still charging
+export const hasChangeableSubscription = (currentTier: TierEntity | null) => Boolean(
+  currentTier?.billing &&
+  currentTier.billing.razorpaySubscriptionId &&
+  !currentTier.billing.isCancelled &&
+  (currentTier.tier === 'BASIC' || currentTier.tier === 'PRO') &&
+  currentTier.billing.status !== 'halted' &&
+  currentTier.billing.status !== 'paused'
+);
+
+// The user's current plan - prefers the plan recorded from webhooks, which may be archived
+export const getCurrentPlanDetails = async (currentTier: TierEntity | null) => {
+  const recordedPlanId = currentTier?.billing?.razorpayPlanId;
+  if (recordedPlanId) {
+    const recordedPlan = await getPlanDetails(recordedPlanId);
+    if (recordedPlan) {
+      return recordedPlan;
+    }
+  }
+
+  if (!currentTier) {
+    return null;
+  }
+  return await findPlan(currentTier.tier, currentTier.billing?.renewalPeriod || "MONTHLY", { includeArchived: true });
+};
+
+// Plan changes a client can offer right now - none while the subscription cannot change or
+// another change is still in progress
+export const getPlanChangeOptions = async (currentTier: TierEntity | null) => {
+  if (!currentTier ||
+      !hasChangeableSubscription(currentTier) ||
+      isPlanHandoverInFlight(currentTier.billing?.pendingHandover) ||
+      currentTier.billing?.pendingChange) {
+    return { availableChanges: [], blockedChanges: [] };
+  }
+  return await getAvailableChanges(currentTier, await getCurrentPlanDetails(currentTier));
+};
+
+// Run every check a plan change must pass before Razorpay is touched. Reads only - never mutates.
+export const validatePlanChange = async (
+  { username, targetTier, targetRenewalPeriod }: PlanChangeRequest
+): Promise<PlanChangeValidation> => {
+  if (!username || !targetTier || !targetRenewalPeriod) {
+    return { ok: false, status: 400, body: { error: 'username, targetTier, and targetRenewalPeriod are required' } };
+  }
+
+  if (targetTier !== 'BASIC' && targetTier !== 'PRO') {
+    return { ok: false, status: 400, body: { error: 'Invalid targetTier. Must be BASIC or PRO' } };
+  }
+
+  // Look up the plan currently sold for the target tier and renewal period
+  const newPlanDetails = await findPlan(targetTier, targetRenewalPeriod);
+  if (!newPlanDetails) {
+    return { ok: false, status: 400, body: { error: 'Invalid target plan configuration' } };
+  }
+
+  // Get current user tier to verify subscription
+  const currentTier = await getTierRepository().getUserTier(username);
+  if (!currentTier) {
+    return { ok: false, status: 404, body: { error: 'User tier not found' } };
+  }
+
+  if (!hasChangeableSubscription(currentTier)) {
+    return { ok: false, status: 400, body: { error: 'No active subscription found to change' } };
+  }
+
+  // A UPI handover in flight already has a mandate link - send the user back to it
+  const pendingHandover = currentTier.billing?.pendingHandover;
+  if (isPlanHandoverInFlight(pendingHandover)) {
+    return {
+      ok: false,
+      status: 409,
+      body: {
+        error: 'A plan change is waiting for UPI mandate setup. Complete it before requesting another change.',
+        pendingHandover,
+        paymentUrl: pendingHandover.paymentUrl
+      }
+    };
+  }
+
+  // Only one scheduled change at a time - it has to be cancelled before requesting another
+  const pendingChange = currentTier.billing?.pendingChange;
+  if (pendingChange) {
+    return {
+      ok: false,
+      status: 409,
+      body: {
+        error: 'A plan change is already scheduled. Cancel it before requesting another change.',
+        pendingChange
+      }
+    };
+  }
+
+  // Check if it's actually a change
+  const currentTierType = currentTier.tier;
+  const currentRenewalPeriod = currentTier.billing?.renewalPeriod || null;
+
+  if (currentTierType === targetTier && currentRenewalPeriod === targetRenewalPeriod) {
+    return { ok: false, status: 400, body: { error: 'User is already on this plan' } };
+  }
+
+  const paymentMethod = currentTier.billing?.paymentMethod || 'upi'; // Default to UPI if not specified
+  const currentPlanDetails = await getCurrentPlanDetails(currentTier);
+  const lastUpgradeAt = await getLastUpgradeAt(username);
+
+  const decision = evaluatePlanChange({
+    currentTier: currentTierType,
+    currentRenewalPeriod,
+    currentPlan: currentPlanDetails,
+    targetPlan: newPlanDetails,
+    paymentMethod,
+    lastUpgradeAt,
+  });
+
+  if (!decision.allowed) {
+    const { availableChanges, blockedChanges } = await getAvailableChanges(currentTier, currentPlanDetails, { lastUpgradeAt });
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: decision.reason,
+        code: decision.code,
+        availableAt: decision.availableAt,
+        currentPlan: { tier: currentTierType, renewalPeriod: currentRenewalPeriod },
+        targetPlan: { tier: targetTier, renewalPeriod: targetRenewalPeriod },
+        availableChanges,
+        blockedChanges
+      }
+    };
+  }
+
+  return {
+    ok: true,
+    context: {
+      username,
+      currentTier,
+      currentTierType,
+      currentRenewalPeriod,
+      currentSubscriptionId: currentTier.billing?.razorpaySubscriptionId || null,
+      currentPlanDetails,
+      targetTier,
+      targetRenewalPeriod,
+      newPlanId: newPlanDetails.planId,
+      newPlanDetails,
+      paymentMethod,
+      billingEndDate: currentTier.billing?.subscriptionEndDate || null,
+      changeType: decision.changeType,
+      scheduleChangeAt: decision.scheduleChangeAt,
+      // A handover's new mandate replaces the old subscription - at the cycle end when scheduled for it
+      mechanism: decision.mechanism,
+    },
+  };
+};
+
+// Itemized proration for a validated change taking effect now - cycle-end changes and handovers
+// (a new subscription billed in full) are not prorated
+export const getPlanChangeProration = (context: PlanChangeContext): ProrationResult | null => {
+  if (!context.currentPlanDetails || context.scheduleChangeAt === 'cycle_end' || context.mechanism === 'handover') {
+    return null;
+  }
+
+  return calculatePlanChangeProration({
+    currentPlan: context.currentPlanDetails,
+    newPlan: context.newPlanDetails,
+    cycleStart: context.currentTier.billing?.subscriptionStartDate,
+    cycleEnd: context.billingEndDate,
+  });
+};
+
+// Prorated order for a handover upgrade: the difference up to the end of the cycle the old mandate
+// already paid for. The new mandate takes over billing from that cycle end, so nothing past it is charged.
+export const getProratedUpgradeQuote = (context: PlanChangeContext): ProrationResult | null => {
+  if (!context.currentPlanDetails || context.mechanism !== 'handover' || context.changeType !== 'upgrade') {
+    return null;
+  }
+
+  return calculatePlanChangeProration({
+    currentPlan: context.currentPlanDetails,
+    newPlan: context.newPlanDetails,
+    cycleStart: context.currentTier.billing?.subscriptionStartDate,
+    cycleEnd: context.billingEndDate,
+    keepCycle: true,
+  });
+};
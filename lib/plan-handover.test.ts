@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PlanDetails } from '@/lib/plan-catalog';
+import { cancelReplacedSubscription, startPlanHandover } from '@/lib/plan-handover';
+import { createMemoryTierRepository, getTierRepository, PlanHandoverInfo, setTierRepository } from '@/lib/tier-repository';
+
+const razorpay = vi.hoisted(() => ({
+  subscriptions: { create: vi.fn(), cancel: vi.fn(), fetch: vi.fn() },
+}));
+
+vi.mock('razorpay', () => ({
+  default: function Razorpay() {
+    return razorpay;
+  },
+}));
+
+const userId = '919800000001';
+
+const PRO_MONTHLY: PlanDetails = {
+  planId: 'plan_pro_monthly',
+  key: 'PRO_MONTHLY',
+  tier: 'PRO',
+  renewalPeriod: 'MONTHLY',
+  amount: 12900,
+  currency: 'INR',
+  displayName: 'Pro Plan',
+  status: 'active',
+  rank: 2,
+};
+
+const startHandover = (startAt: Date | null = null) => startPlanHandover({
+  userId,
+  currentSubscriptionId: 'sub_current',
+  plan: PRO_MONTHLY,
+  changeType: 'upgrade',
+  startAt,
+});
+
+const getPendingHandover = async () => (await getTierRepository().getUserTier(userId))?.billing?.pendingHandover;
+
+beforeEach(async () => {
+  setTierRepository(createMemoryTierRepository());
+  await getTierRepository().createUserTier({
+    PK: `USER#${userId}`,
+    SK: 'TIER',
+    entityType: 'Tier',
+    userId,
+    tier: 'BASIC',
+    billing: {
+      renewalPeriod: 'MONTHLY',
+      trialStartDate: null,
+      trialEndDate: null,
+      subscriptionStartDate: '2026-06-01T00:00:00.000Z',
+      subscriptionEndDate: '2026-07-01T00:00:00.000Z',
+      razorpaySubscriptionId: 'sub_current',
+      paymentMethod: 'upi',
+      status: 'active',
+    },
+  });
+
+  let created = 0;
+  razorpay.subscriptions.create.mockImplementation(async () => {
+    created += 1;
+    return { id: `sub_new_${created}`, status: 'created', short_url: `https://rzp.io/i/${created}` };
+  });
+  razorpay.subscriptions.cancel.mockImplementation(async (id: string) => ({ id, status: 'cancelled' }));
+});
+
+afterEach(() => {
+  setTierRepository(null);
+  vi.clearAllMocks();
+});
+
+describe('startPlanHandover', () => {
+  it('creates the new subscription and records the handover', async () => {
+    const startAt = new Date('2026-07-01T00:00:00.000Z');
+    const result = await startHandover(startAt);
+
+    expect(result.started).toBe(true);
+    expect(razorpay.subscriptions.create).toHaveBeenCalledWith(expect.objectContaining({
+      plan_id: PRO_MONTHLY.planId,
+      start_at: Math.floor(startAt.getTime() / 1000),
+      notes: expect.objectContaining({ userId, replacesSubscriptionId: 'sub_current' }),
+    }));
+    expect(await getPendingHandover()).toMatchObject({
+      newSubscriptionId: 'sub_new_1',
+      previousSubscriptionId: 'sub_current',
+      targetTier: 'PRO',
+      paymentUrl: 'https://rzp.io/i/1',
+      startAt: startAt.toISOString(),
+      authenticatedAt: null,
+    });
+  });
+
+  it('keeps the handover in flight and cancels the duplicate subscription', async () => {
+    await startHandover();
+    const second = await startHandover();
+
+    expect(second.started).toBe(false);
+    expect(second.handover.newSubscriptionId).toBe('sub_new_1');
+    expect(razorpay.subscriptions.cancel).toHaveBeenCalledWith('sub_new_2');
+    expect((await getPendingHandover())?.newSubscriptionId).toBe('sub_new_1');
+  });
+
+  it('replaces a handover whose link expired and cancels its subscription', async () => {
+    const expired: PlanHandoverInfo = {
+      newSubscriptionId: 'sub_expired',
+      newPlanId: PRO_MONTHLY.planId,
+      targetTier: 'PRO',
+      targetRenewalPeriod: 'MONTHLY',
+      previousSubscriptionId: 'sub_current',
+      changeType: 'upgrade',
+      paymentUrl: null,
+      startedAt: '2026-01-01T00:00:00.000Z',
+      expiresAt: '2026-01-02T00:00:00.000Z',
+      startAt: null,
+      authenticatedAt: null,
+      previousCancelScheduledAt: null,
+    };
+    await getTierRepository().updateUserTierGeneric(userId, { 'billing.pendingHandover': expired });
+
+    const result = await startHandover();
+
+    expect(result.started).toBe(true);
+    expect(razorpay.subscriptions.cancel).toHaveBeenCalledWith('sub_expired');
+    expect((await getPendingHandover())?.newSubscriptionId).toBe('sub_new_1');
+  });
+});
+
+describe('cancelReplacedSubscription', () => {
+  it('leaves a subscription that already closed alone', async () => {
+    razorpay.subscriptions.fetch.mockResolvedValue({ id: 'sub_current', status: 'cancelled' });
+
+    await cancelReplacedSubscription('sub_current');
+
+    expect(razorpay.subscriptions.cancel).not.toHaveBeenCalled();
+  });
+
+  it('cancels at the cycle end when asked to', async () => {
+    razorpay.subscriptions.fetch.mockResolvedValue({ id: 'sub_current', status: 'active' });
+
+    await cancelReplacedSubscription('sub_current', { atCycleEnd: true });
+
+    expect(razorpay.subscriptions.cancel).toHaveBeenCalledWith('sub_current', true);
+  });
+});
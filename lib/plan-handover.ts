@@ -0,0 +1,122 @@
+import Razorpay from 'razorpay';
+import { PLAN_HANDOVER_LINK_HOURS } from '@/lib/billing-config';
+import { getTierRepository, PlanHandoverInfo } from '@/lib/tier-repository';
+import { PlanDetails } from '@/lib/plan-catalog';
+import type { PlanChangeType } from '@/lib/plan-change';
+
+// Razorpay states after which a subscription can no longer charge the customer
+const CLOSED_SUBSCRIPTION_STATUSES = ['cancelled', 'completed', 'expired'];
+
+const getRazorpayClient = () => new Razorpay({
+  key_id: process.env.RAZORPAY_ID!,
+  key_secret: process.env.RAZORPAY_SECRET!,
+});
+
+export type PlanHandoverStart =
+  | { started: true; handover: PlanHandoverInfo; subscription: { id: string; status: string } }
+  | { started: false; handover: PlanHandoverInfo }; // Another handover is already in flight
+
+// Create the subscription that replaces currentSubscriptionId and record the handover. With startAt
+// the new subscription only starts charging then (e.g. after a prorated upgrade paid the current cycle).
+export const startPlanHandover = async ({
+  userId,
+  currentSubscriptionId,
+  plan,
+  changeType,
+  startAt = null,
+}: {
+  userId: string;
+  currentSubscriptionId: string;
+  plan: PlanDetails;
+  changeType: PlanChangeType;
+  startAt?: Date | null;
+}): Promise<PlanHandoverStart> => {
+  const razorpay = getRazorpayClient();
+  const startedAt = new Date();
+  const expiresAt = new Date(startedAt.getTime() + PLAN_HANDOVER_LINK_HOURS * 60 * 60 * 1000);
+
+  const subscription = await razorpay.subscriptions.create({
+    plan_id: plan.planId,
+    total_count: plan.renewalPeriod === 'MONTHLY' ? 12 : 5,
+    quantity: 1,
+    customer_notify: true,
+    expire_by: Math.floor(expiresAt.getTime() / 1000),
+    ...(startAt && { start_at: Math.floor(startAt.getTime() / 1000) }),
+    notes: {
+      userId,
+      tier: plan.tier,
+      renewalPeriod: plan.renewalPeriod,
+      // Lets the webhook retire the old subscription once this one takes over
+      replacesSubscriptionId: currentSubscriptionId,
+    },
+  });
+
+  console.log('Handover subscription created', {
+    userId,
+    subscriptionId: subscription.id,
+    status: subscription.status,
+    replacesSubscriptionId: currentSubscriptionId,
+    startAt: startAt?.toISOString() || null
+  });
+
+  const handover: PlanHandoverInfo = {
+    newSubscriptionId: subscription.id,
+    newPlanId: plan.planId,
+    targetTier: plan.tier,
+    targetRenewalPeriod: plan.renewalPeriod,
+    previousSubscriptionId: currentSubscriptionId,
+    changeType,
+    paymentUrl: subscription.short_url || null,
+    startedAt: startedAt.toISOString(),
+    expiresAt: expiresAt.toISOString(),
+    startAt: startAt?.toISOString() || null,
+    authenticatedAt: null,
+    previousCancelScheduledAt: null,
+  };
+
+  const claim = await getTierRepository().claimPlanHandover(userId, handover);
+  if (!claim.claimed) {
+    // A concurrent request won - drop this subscription so only one new mandate can exist
+    await razorpay.subscriptions.cancel(subscription.id).catch((error) => {
+      console.error('Failed to cancel duplicate handover subscription', { subscriptionId: subscription.id, error });
+    });
+    return { started: false, handover: claim.handover };
+  }
+
+  // An expired handover link can no longer be authenticated - clean up its subscription
+  if (claim.replaced) {
+    const expiredSubscriptionId = claim.replaced.newSubscriptionId;
+    await razorpay.subscriptions.cancel(expiredSubscriptionId).catch((error) => {
+      console.log('Expired handover subscription already closed', {
+        subscriptionId: expiredSubscriptionId,
+        error: error?.error?.description || error?.message
+      });
+    });
+  }
+
+  return { started: true, handover, subscription: { id: subscription.id, status: subscription.status } };
+};
+
+// Cancel the subscription a UPI handover replaced. Safe to call again on webhook retries -
+// a subscription that is already closed is left alone. With atCycleEnd the old subscription
+// keeps the current paid cycle and stops before its next charge.
+export const cancelReplacedSubscription = async (
+  subscriptionId: string,
+  { atCycleEnd = false }: { atCycleEnd?: boolean } = {}
+) => {
+  const razorpay = getRazorpayClient();
+
+  const subscription = await razorpay.subscriptions.fetch(subscriptionId);
+  if (CLOSED_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+    console.log('Replaced subscription already closed', { subscriptionId, status: subscription.status });
+    return subscription;
+  }
+
+  const cancelled = await razorpay.subscriptions.cancel(subscriptionId, atCycleEnd);
+  console.log('Replaced subscription cancelled', { subscriptionId, atCycleEnd, status: cancelled.status });
+  return cancelled;
+};
+
+// Whether a handover subscription will never activate, so the handover can be dropped
+export const isHandoverAbandoned = (status: string) =>
+  CLOSED_SUBSCRIPTION_STATUSES.includes(status) || status === 'halted';
@@ -0,0 +1,182 @@
+import Razorpay from 'razorpay';
+import {
+  CatalogPlan,
+  getPlanCatalog,
+  getRazorpayMode,
+  getRazorpayPlanId,
+  RazorpayMode,
+  upsertCatalogPlan,
+} from '@/lib/plan-catalog';
+
+export type PlanSyncStatus =
+  | "in_sync"
+  | "drift" // Razorpay plan differs from the catalog
+  | "missing_plan_id" // Catalog has no Razorpay plan ID for this mode
+  | "not_found" // Catalog plan ID does not exist on the Razorpay account
+  | "created"; // Plan was missing and has been created on Razorpay
+
+export interface PlanDifference {
+  field: "amount" | "currency" | "period" | "interval";
+  expected: string | number;
+  actual: string | number | null;
+}
+
+export interface PlanSyncResult {
+  key: string;
+  catalogStatus: CatalogPlan['status'];
+  razorpayPlanId: string | null;
+  status: PlanSyncStatus;
+  differences: PlanDifference[];
+}
+
+export interface PlanSyncReport {
+  mode: RazorpayMode;
+  checkedAt: string; // UTC ISO
+  inSync: boolean; // True when every catalog plan matches Razorpay
+  plans: PlanSyncResult[];
+  untrackedPlanIds: string[]; // Plans on the Razorpay account that no catalog entry points to
+}
+
+interface RazorpayPlan {
+  id: string;
+  period: string;
+  interval: number;
+  item: { name?: string; amount: number | string; currency: string };
+}
+
+// Billing cadence each renewal period must have on Razorpay
+const EXPECTED_CADENCE: Record<CatalogPlan['renewalPeriod'], { period: "monthly" | "yearly"; interval: number }> = {
+  MONTHLY: { period: 'monthly', interval: 1 },
+  ANNUAL: { period: 'yearly', interval: 1 },
+};
+
+const PLANS_PAGE_SIZE = 100;
+
+const getRazorpayClient = () => {
+  const keyId = process.env.RAZORPAY_ID;
+  const keySecret = process.env.RAZORPAY_SECRET;
+  if (!keyId || !keySecret) {
+    throw new Error('Razorpay credentials not configured');
+  }
+  return new Razorpay({ key_id: keyId, key_secret: keySecret });
+};
+
+// Razorpay returns plans newest first, at most 100 per page
+const fetchAllRazorpayPlans = async (razorpay: Razorpay): Promise<Map<string, RazorpayPlan>> => {
+  const plans = new Map<string, RazorpayPlan>();
+
+  for (let skip = 0; ; skip += PLANS_PAGE_SIZE) {
+    const page = await razorpay.plans.all({ count: PLANS_PAGE_SIZE, skip });
+    for (const plan of page.items) {
+      plans.set(plan.id, plan as unknown as RazorpayPlan);
+    }
+    if (page.items.length < PLANS_PAGE_SIZE) {
+      break;
+    }
+  }
+
+  return plans;
+};
+
+const comparePlan = (plan: CatalogPlan, razorpayPlan: RazorpayPlan): PlanDifference[] => {
+  const expectedCadence = EXPECTED_CADENCE[plan.renewalPeriod];
+  const differences: PlanDifference[] = [];
+
+  if (Number(razorpayPlan.item.amount) !== plan.amount) {
+    differences.push({ field: 'amount', expected: plan.amount, actual: Number(razorpayPlan.item.amount) });
+  }
+  if (razorpayPlan.item.currency !== plan.currency) {
+    differences.push({ field: 'currency', expected: plan.currency, actual: razorpayPlan.item.currency });
+  }
+  if (razorpayPlan.period !== expectedCadence.period) {
+    differences.push({ field: 'period', expected: expectedCadence.period, actual: razorpayPlan.period });
+  }
+  if (Number(razorpayPlan.interval) !== expectedCadence.interval) {
+    differences.push({ field: 'interval', expected: expectedCadence.interval, actual: Number(razorpayPlan.interval) });
+  }
+
+  return differences;
+};
+
+// Create the Razorpay plan for a catalog entry and record its ID for the current mode
+const createRazorpayPlan = async (razorpay: Razorpay, plan: CatalogPlan, mode: RazorpayMode) => {
+  const cadence = EXPECTED_CADENCE[plan.renewalPeriod];
+  const created = await razorpay.plans.create({
+    period: cadence.period,
+    interval: cadence.interval,
+    item: {
+      name: `${plan.displayName} (${plan.renewalPeriod.toLowerCase()})`,
+      amount: plan.amount,
+      currency: plan.currency,
+      description: plan.description || undefined,
+    },
+    notes: { catalogKey: plan.key },
+  });
+
+  await upsertCatalogPlan({
+    ...plan,
+    razorpayPlanIds: { ...plan.razorpayPlanIds, [mode]: created.id },
+  });
+
+  console.log('Created Razorpay plan for catalog entry', { key: plan.key, mode, razorpayPlanId: created.id });
+  return created.id;
+};
+
+// Compare every catalog plan with the Razorpay account for the current mode. With createMissing,
+// active plans without a usable Razorpay plan are created; plans that drifted are only reported,
+// because Razorpay plans are immutable and changing a price means a new plan ID.
+export const syncPlans = async ({ createMissing = false }: { createMissing?: boolean } = {}): Promise<PlanSyncReport> => {
+  const mode = getRazorpayMode();
+  const razorpay = getRazorpayClient();
+  const [{ plans }, razorpayPlans] = await Promise.all([
+    getPlanCatalog({ includeArchived: true }),
+    fetchAllRazorpayPlans(razorpay),
+  ]);
+
+  const results: PlanSyncResult[] = [];
+  for (const plan of plans) {
+    const razorpayPlanId = getRazorpayPlanId(plan, mode);
+    const razorpayPlan = razorpayPlanId ? razorpayPlans.get(razorpayPlanId) : undefined;
+
+    if (razorpayPlan) {
+      const differences = comparePlan(plan, razorpayPlan);
+      results.push({
+        key: plan.key,
+        catalogStatus: plan.status,
+        razorpayPlanId,
+        status: differences.length > 0 ? 'drift' : 'in_sync',
+        differences,
+      });
+      continue;
+    }
+
+    const status: PlanSyncStatus = razorpayPlanId ? 'not_found' : 'missing_plan_id';
+    if (createMissing && plan.status === 'active') {
+      const createdPlanId = await createRazorpayPlan(razorpay, plan, mode);
+      results.push({ key: plan.key, catalogStatus: plan.status, razorpayPlanId: createdPlanId, status: 'created', differences: [] });
+      continue;
+    }
+
+    results.push({ key: plan.key, catalogStatus: plan.status, razorpayPlanId, status, differences: [] });
+  }
+
+  const trackedPlanIds = new Set(results.map((result) => result.razorpayPlanId).filter(Boolean));
+  const report: PlanSyncReport = {
+    mode,
+    checkedAt: new Date().toISOString(),
+    inSync: results.every((result) => result.status === 'in_sync' || result.status === 'created'),
+    plans: results,
+    untrackedPlanIds: Array.from(razorpayPlans.keys()).filter((planId) => !trackedPlanIds.has(planId)),
+  };
+
+  if (report.inSync) {
+    console.log('Plan catalog matches Razorpay', { mode, plans: results.length });
+  } else {
+    console.warn('Plan catalog drift detected', {
+      mode,
+      plans: results.filter((result) => result.status !== 'in_sync' && result.status !== 'created'),
+    });
+  }
+
+  return report;
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { addBillingPeriods, calculatePlanChangeProration, ProrationPlan } from '@/lib/proration';
+
+const BASIC_MONTHLY: ProrationPlan = { tier: 'BASIC', renewalPeriod: 'MONTHLY', amount: 30000 };
+const PRO_MONTHLY: ProrationPlan = { tier: 'PRO', renewalPeriod: 'MONTHLY', amount: 60000 };
+const PRO_ANNUAL: ProrationPlan = { tier: 'PRO', renewalPeriod: 'ANNUAL', amount: 365000 };
+
+// A 30-day cycle, changed exactly halfway through
+const cycleStart = '2026-04-01T00:00:00.000Z';
+const cycleEnd = '2026-05-01T00:00:00.000Z';
+const changeAt = new Date('2026-04-16T00:00:00.000Z');
+
+describe('addBillingPeriods', () => {
+  it('clamps to the last day of shorter months', () => {
+    expect(addBillingPeriods(new Date('2026-01-31T10:00:00.000Z'), 'MONTHLY').toISOString()).toBe('2026-02-28T10:00:00.000Z');
+    expect(addBillingPeriods(new Date('2028-02-29T00:00:00.000Z'), 'ANNUAL').toISOString()).toBe('2029-02-28T00:00:00.000Z');
+  });
+
+  it('goes back with a negative count', () => {
+    expect(addBillingPeriods(new Date('2026-03-31T00:00:00.000Z'), 'MONTHLY', -1).toISOString()).toBe('2026-02-28T00:00:00.000Z');
+  });
+});
+
+describe('calculatePlanChangeProration', () => {
+  it('credits unused time and charges the rest of the cycle on the same period', () => {
+    const proration = calculatePlanChangeProration({ currentPlan: BASIC_MONTHLY, newPlan: PRO_MONTHLY, cycleStart, cycleEnd, changeAt });
+
+    expect(proration?.lineItems.map((item) => [item.type, item.amount])).toEqual([
+      ['unused_time_credit', -15000],
+      ['remaining_time_charge', 30000],
+    ]);
+    expect(proration?.netAmount).toBe(15000);
+    expect(proration?.amountDue).toBe(15000);
+    expect(proration?.creditAmount).toBe(0);
+    expect(proration?.newCycleEnd).toBe(cycleEnd);
+  });
+
+  it('reports a downgrade as a credit', () => {
+    const proration = calculatePlanChangeProration({ currentPlan: PRO_MONTHLY, newPlan: BASIC_MONTHLY, cycleStart, cycleEnd, changeAt });
+
+    expect(proration?.netAmount).toBe(-15000);
+    expect(proration?.amountDue).toBe(0);
+    expect(proration?.creditAmount).toBe(15000);
+  });
+
+  it('bills a fresh cycle of the new plan on a cross-period change', () => {
+    const proration = calculatePlanChangeProration({ currentPlan: BASIC_MONTHLY, newPlan: PRO_ANNUAL, cycleStart, cycleEnd, changeAt });
+
+    expect(proration?.isCrossPeriod).toBe(true);
+    expect(proration?.lineItems[1]).toMatchObject({ type: 'new_cycle_charge', amount: 365000 });
+    expect(proration?.netAmount).toBe(350000);
+    expect(proration?.newCycleEnd).toBe('2027-04-16T00:00:00.000Z');
+  });
+
+  it('charges only up to the cycle end at the new plan rate with keepCycle', () => {
+    const proration = calculatePlanChangeProration({
+      currentPlan: BASIC_MONTHLY,
+      newPlan: PRO_ANNUAL,
+      cycleStart,
+      cycleEnd,
+      changeAt,
+      keepCycle: true,
+    });
+
+    // 15 of the 365 days the annual amount covers from the cycle start
+    expect(proration?.lineItems[1]).toMatchObject({ type: 'remaining_time_charge', amount: 15000 });
+    expect(proration?.netAmount).toBe(0);
+    expect(proration?.newCycleEnd).toBe(cycleEnd);
+  });
+
+  it('prorates the whole cycle for a change before it started', () => {
+    const proration = calculatePlanChangeProration({
+      currentPlan: BASIC_MONTHLY,
+      newPlan: PRO_MONTHLY,
+      cycleStart,
+      cycleEnd,
+      changeAt: new Date('2026-03-20T00:00:00.000Z'),
+    });
+
+    expect(proration?.changeAt).toBe(cycleStart);
+    expect(proration?.netAmount).toBe(30000);
+  });
+
+  it('defaults the cycle start to one period before the cycle end', () => {
+    const proration = calculatePlanChangeProration({ currentPlan: BASIC_MONTHLY, newPlan: PRO_MONTHLY, cycleEnd, changeAt });
+
+    expect(proration?.currentCycleStart).toBe(cycleStart);
+  });
+
+  it('returns null without a cycle to prorate against', () => {
+    expect(calculatePlanChangeProration({ currentPlan: BASIC_MONTHLY, newPlan: PRO_MONTHLY, cycleEnd: null, changeAt })).toBeNull();
+    expect(calculatePlanChangeProration({
+      currentPlan: BASIC_MONTHLY,
+      newPlan: PRO_MONTHLY,
+      cycleStart,
+      cycleEnd,
+      changeAt: new Date(cycleEnd),
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+// Proration for mid-cycle plan changes, computed to the second from the real billing cycle
+// boundaries instead of assuming 30/365-day cycles. Amounts are in paise; credits are negative.
+
+export interface ProrationPlan {
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  amount: number; // in paise, per billing cycle
+}
+
+export interface ProrationLineItem {
+  type: "unused_time_credit" | "remaining_time_charge" | "new_cycle_charge";
+  description: string;
+  tier: "BASIC" | "PRO";
+  renewalPeriod: "MONTHLY" | "ANNUAL";
+  periodStart: string; // UTC ISO
+  periodEnd: string; // UTC ISO
+  seconds: number; // Length of the prorated span
+  cycleSeconds: number; // Length of the full billing cycle the plan amount covers
+  amount: number; // in paise - negative for credits
+}
+
+export interface ProrationResult {
+  changeAt: string; // UTC ISO - when the change takes effect
+  currentCycleStart: string; // UTC ISO
+  currentCycleEnd: string; // UTC ISO
+  isCrossPeriod: boolean; // MONTHLY <-> ANNUAL - the new plan starts a fresh cycle at changeAt, unless keepCycle
+  newCycleEnd: string; // UTC ISO - next renewal date after the change
+  lineItems: ProrationLineItem[];
+  netAmount: number; // in paise - positive is owed by the customer, negative is a credit
+  amountDue: number; // in paise - charge after the change (0 for credits)
+  creditAmount: number; // in paise - credit after the change (0 for charges)
+}
+
+// Add whole billing periods in UTC, clamping to the last day of shorter months (Jan 31 + 1 month = Feb 28/29)
+export const addBillingPeriods = (date: Date, renewalPeriod: "MONTHLY" | "ANNUAL", count: number = 1): Date => {
+  const months = renewalPeriod === 'ANNUAL' ? 12 * count : count;
+  const targetMonthIndex = date.getUTCMonth() + months;
+  const targetYear = date.getUTCFullYear() + Math.floor(targetMonthIndex / 12);
+  const targetMonth = ((targetMonthIndex % 12) + 12) % 12;
+  const daysInTargetMonth = new Date(Date.UTC(targetYear, targetMonth + 1, 0)).getUTCDate();
+
+  return new Date(Date.UTC(
+    targetYear,
+    targetMonth,
+    Math.min(date.getUTCDate(), daysInTargetMonth),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds()
+  ));
+};
+
+const secondsBetween = (start: Date, end: Date) => Math.max(0, Math.floor((end.getTime() - start.getTime()) / 1000));
+
+const describePlan = (plan: ProrationPlan) => `${plan.tier} ${plan.renewalPeriod.toLowerCase()}`;
+
+// Prorate a change from currentPlan to newPlan at changeAt within the cycle [cycleStart, cycleEnd).
+// cycleStart defaults to one billing period before cycleEnd. Returns null when there is no cycle end
+// to prorate against, or the cycle has already ended.
+// keepCycle is for changes whose new plan starts billing at cycleEnd (a UPI handover): cross-period
+// changes then charge the new plan's rate up to cycleEnd instead of a fresh cycle of their own.
+export const calculatePlanChangeProration = ({
+  currentPlan,
+  newPlan,
+  cycleStart,
+  cycleEnd,
+  changeAt = new Date(),
+  keepCycle = false,
+}: {
+  currentPlan: ProrationPlan;
+  newPlan: ProrationPlan;
+  cycleStart?: string | Date | null;
+  cycleEnd: string | Date | null;
+  changeAt?: Date;
+  keepCycle?: boolean;
+}): ProrationResult | null => {
+  if (!cycleEnd) {
+    return null;
+  }
+
+  const end = new Date(cycleEnd);
+  const start = cycleStart ? new Date(cycleStart) : addBillingPeriods(end, currentPlan.renewalPeriod, -1);
+  if (Number.isNaN(end.getTime()) || Number.isNaN(start.getTime()) || end <= start || changeAt >= end) {
+    return null;
+  }
+
+  // A change before the cycle started (e.g. right after authentication) prorates the whole cycle
+  const effectiveChangeAt = changeAt < start ? start : changeAt;
+  const cycleSeconds = secondsBetween(start, end);
+  const remainingSeconds = secondsBetween(effectiveChangeAt, end);
+  const isCrossPeriod = currentPlan.renewalPeriod !== newPlan.renewalPeriod;
+
+  const lineItems: ProrationLineItem[] = [{
+    type: 'unused_time_credit',
+    description: `Credit for unused time on ${describePlan(currentPlan)}`,
+    tier: currentPlan.tier,
+    renewalPeriod: currentPlan.renewalPeriod,
+    periodStart: effectiveChangeAt.toISOString(),
+    periodEnd: end.toISOString(),
+    seconds: remainingSeconds,
+    cycleSeconds,
+    amount: -Math.round(currentPlan.amount * remainingSeconds / cycleSeconds),
+  }];
+
+  let newCycleEnd: Date;
+  if (isCrossPeriod && !keepCycle) {
+    // The cadence changes, so the new plan bills a full cycle of its own from the change
+    newCycleEnd = addBillingPeriods(effectiveChangeAt, newPlan.renewalPeriod);
+    const newCycleSeconds = secondsBetween(effectiveChangeAt, newCycleEnd);
+    lineItems.push({
+      type: 'new_cycle_charge',
+      description: `${describePlan(newPlan)} from the change until ${newCycleEnd.toISOString().slice(0, 10)}`,
+      tier: newPlan.tier,
+      renewalPeriod: newPlan.renewalPeriod,
+      periodStart: effectiveChangeAt.toISOString(),
+      periodEnd: newCycleEnd.toISOString(),
+      seconds: newCycleSeconds,
+      cycleSeconds: newCycleSeconds,
+      amount: newPlan.amount,
+    });
+  } else {
+    newCycleEnd = end;
+    // The new plan's amount covers one of its own periods - a year for a monthly cycle kept to its end
+    const newPlanCycleSeconds = isCrossPeriod
+      ? secondsBetween(start, addBillingPeriods(start, newPlan.renewalPeriod))
+      : cycleSeconds;
+    lineItems.push({
+      type: 'remaining_time_charge',
+      description: `Remaining time on ${describePlan(newPlan)}`,
+      tier: newPlan.tier,
+      renewalPeriod: newPlan.renewalPeriod,
+      periodStart: effectiveChangeAt.toISOString(),
+      periodEnd: end.toISOString(),
+      seconds: remainingSeconds,
+      cycleSeconds: newPlanCycleSeconds,
+      amount: Math.round(newPlan.amount * remainingSeconds / newPlanCycleSeconds),
+    });
+  }
+
+  const netAmount = lineItems.reduce((total, item) => total + item.amount, 0);
+
+  return {
+    changeAt: effectiveChangeAt.toISOString(),
+    currentCycleStart: start.toISOString(),
+    currentCycleEnd: end.toISOString(),
+    isCrossPeriod,
+    newCycleEnd: newCycleEnd.toISOString(),
+    lineItems,
+    netAmount,
+    amountDue: Math.max(0, netAmount),
+    creditAmount: Math.max(0, -netAmount),
+  };
+};
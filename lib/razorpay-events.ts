@@ -0,0 +1,383 @@
+import type { SubscriptionStatus } from '@/lib/tier-repository';
+import type { PaymentStatus } from '@/lib/payments';
+
+// Razorpay sends notes as an object, or as [] when empty - parseWebhookEvent normalizes [] to {}
+export type RazorpayNotes = Record<string, string | undefined>;
+
+// Fields parseWebhookEvent does not require are optional here, so handlers cannot assume them
+export interface RazorpaySubscriptionEntity {
+  id: string;
+  entity?: "subscription";
+  plan_id: string;
+  customer_id?: string | null;
+  status: SubscriptionStatus;
+  current_start?: number | null; // null until the first charge
+  current_end?: number | null;
+  ended_at?: number | null;
+  quantity?: number;
+  notes: RazorpayNotes;
+  charge_at?: number | null;
+  start_at?: number | null;
+  end_at?: number | null;
+  auth_attempts?: number;
+  total_count?: number | null;
+  paid_count?: number | null;
+  customer_notify?: boolean;
+  created_at: number;
+  expire_by?: number | null;
+  short_url?: string | null;
+  has_scheduled_changes?: boolean | null;
+  change_scheduled_at?: number | null;
+  remaining_count?: number | string;
+  payment_method?: string | null; // Payment method used (upi, card, netbanking, wallet, etc.)
+}
+
+export interface RazorpayPaymentEntity {
+  id: string;
+  entity?: "payment";
+  amount: number; // in paise
+  currency: string;
+  status: PaymentStatus;
+  order_id?: string | null;
+  invoice_id?: string | null;
+  method?: string | null; // upi, card, netbanking, wallet, etc.
+  captured?: boolean;
+  description?: string | null;
+  customer_id?: string | null;
+  email?: string | null;
+  contact?: string | null;
+  notes: RazorpayNotes;
+  error_code?: string | null;
+  error_description?: string | null;
+  error_reason?: string | null;
+  created_at: number;
+}
+
+export interface RazorpayInvoiceEntity {
+  id: string;
+  entity?: "invoice";
+  status: string; // issued, paid, partially_paid, expired, cancelled
+  subscription_id?: string | null;
+  customer_id?: string | null;
+  order_id?: string | null;
+  payment_id?: string | null;
+  amount: number; // in paise
+  amount_paid?: number;
+  currency?: string;
+  billing_start?: number | null;
+  billing_end?: number | null;
+  notes: RazorpayNotes;
+  created_at: number;
+}
+
+export interface RazorpayRefundEntity {
+  id: string;
+  entity?: "refund";
+  payment_id: string;
+  amount: number; // in paise
+  currency?: string;
+  status: string; // pending, processed, failed
+  speed_processed?: string | null;
+  notes: RazorpayNotes;
+  created_at: number;
+}
+
+export interface RazorpayPaymentLinkEntity {
+  id: string;
+  amount: number; // in paise
+  amount_paid?: number | null; // in paise
+  currency?: string;
+  status: string; // created, partially_paid, paid, expired, cancelled
+  reference_id?: string | null;
+  short_url?: string;
+  notes: RazorpayNotes;
+  created_at: number;
+}
+
+export interface RazorpayOrderEntity {
+  id: string;
+  entity?: "order";
+  amount: number; // in paise
+  amount_paid?: number | null;
+  amount_due?: number;
+  currency?: string;
+  receipt?: string | null;
+  status: string; // created, attempted, paid
+  attempts?: number;
+  notes: RazorpayNotes;
+  created_at: number;
+}
+
+export const SUBSCRIPTION_EVENTS = [
+  'subscription.authenticated',
+  'subscription.activated',
+  'subscription.charged',
+  'subscription.completed',
+  'subscription.updated',
+  'subscription.pending',
+  'subscription.halted',
+  'subscription.paused',
+  'subscription.resumed',
+  'subscription.cancelled',
+] as const;
+export const PAYMENT_EVENTS = ['payment.authorized', 'payment.captured', 'payment.failed'] as const;
+export const INVOICE_EVENTS = ['invoice.paid', 'invoice.partially_paid', 'invoice.expired'] as const;
+export const REFUND_EVENTS = ['refund.created', 'refund.processed', 'refund.failed', 'refund.speed_changed'] as const;
+export const PAYMENT_LINK_EVENTS = [
+  'payment_link.paid',
+  'payment_link.partially_paid',
+  'payment_link.expired',
+  'payment_link.cancelled',
+] as const;
+export const ORDER_EVENTS = ['order.paid'] as const;
+
+export type SubscriptionEventType = typeof SUBSCRIPTION_EVENTS[number];
+export type PaymentEventType = typeof PAYMENT_EVENTS[number];
+export type InvoiceEventType = typeof INVOICE_EVENTS[number];
+export type RefundEventType = typeof REFUND_EVENTS[number];
+export type PaymentLinkEventType = typeof PAYMENT_LINK_EVENTS[number];
+export type OrderEventType = typeof ORDER_EVENTS[number];
+
+interface WebhookEnvelope<TEvent extends string, TPayload> {
+  entity: "event";
+  account_id: string;
+  event: TEvent;
+  contains: string[];
+  payload: TPayload;
+  created_at: number; // unix seconds
+}
+
+export type SubscriptionWebhookEvent = WebhookEnvelope<SubscriptionEventType, {
+  subscription: { entity: RazorpaySubscriptionEntity };
+  payment?: { entity: RazorpayPaymentEntity };
+}>;
+
+export type PaymentWebhookEvent = WebhookEnvelope<PaymentEventType, {
+  payment: { entity: RazorpayPaymentEntity };
+}>;
+
+export type InvoiceWebhookEvent = WebhookEnvelope<InvoiceEventType, {
+  invoice: { entity: RazorpayInvoiceEntity };
+  payment?: { entity: RazorpayPaymentEntity };
+  order?: { entity: RazorpayOrderEntity };
+}>;
+
+export type RefundWebhookEvent = WebhookEnvelope<RefundEventType, {
+  refund: { entity: RazorpayRefundEntity };
+  payment?: { entity: RazorpayPaymentEntity };
+}>;
+
+export type PaymentLinkWebhookEvent = WebhookEnvelope<PaymentLinkEventType, {
+  payment_link: { entity: RazorpayPaymentLinkEntity };
+  payment?: { entity: RazorpayPaymentEntity };
+  order?: { entity: RazorpayOrderEntity };
+}>;
+
+export type OrderWebhookEvent = WebhookEnvelope<OrderEventType, {
+  order: { entity: RazorpayOrderEntity };
+  payment?: { entity: RazorpayPaymentEntity };
+}>;
+
+export type RazorpayWebhookEvent =
+  | SubscriptionWebhookEvent
+  | PaymentWebhookEvent
+  | InvoiceWebhookEvent
+  | RefundWebhookEvent
+  | PaymentLinkWebhookEvent
+  | OrderWebhookEvent;
+
+export type RazorpayEventType = RazorpayWebhookEvent['event'];
+
+export type WebhookParseResult =
+  | { ok: true; event: RazorpayWebhookEvent }
+  | { ok: false; reason: string; eventType: string | null };
+
+// Field rules: a trailing "?" accepts null/undefined, "notes" accepts an object or []
+type FieldRule = 'string' | 'number' | 'boolean' | 'notes' | 'string?' | 'number?' | 'boolean?' | 'notes?';
+
+type EntityName = 'subscription' | 'payment' | 'invoice' | 'refund' | 'payment_link' | 'order';
+
+const ENTITY_RULES: Record<EntityName, Record<string, FieldRule>> = {
+  subscription: {
+    id: 'string',
+    plan_id: 'string',
+    status: 'string',
+    customer_id: 'string?',
+    current_start: 'number?',
+    current_end: 'number?',
+    ended_at: 'number?',
+    notes: 'notes?',
+    charge_at: 'number?',
+    start_at: 'number?',
+    total_count: 'number?',
+    paid_count: 'number?',
+    has_scheduled_changes: 'boolean?',
+    change_scheduled_at: 'number?',
+    payment_method: 'string?',
+    created_at: 'number',
+  },
+  payment: {
+    id: 'string',
+    amount: 'number',
+    currency: 'string',
+    status: 'string',
+    method: 'string?',
+    order_id: 'string?',
+    invoice_id: 'string?',
+    customer_id: 'string?',
+    notes: 'notes?',
+    error_code: 'string?',
+    error_description: 'string?',
+    email: 'string?',
+    contact: 'string?',
+    created_at: 'number',
+  },
+  invoice: {
+    id: 'string',
+    status: 'string',
+    subscription_id: 'string?',
+    customer_id: 'string?',
+    payment_id: 'string?',
+    amount: 'number',
+    notes: 'notes?',
+    created_at: 'number',
+  },
+  refund: {
+    id: 'string',
+    payment_id: 'string',
+    amount: 'number',
+    status: 'string',
+    notes: 'notes?',
+    created_at: 'number',
+  },
+  payment_link: {
+    id: 'string',
+    amount: 'number',
+    amount_paid: 'number?',
+    status: 'string',
+    reference_id: 'string?',
+    notes: 'notes?',
+    created_at: 'number',
+  },
+  order: {
+    id: 'string',
+    amount: 'number',
+    amount_paid: 'number?',
+    status: 'string',
+    notes: 'notes?',
+    created_at: 'number',
+  },
+};
+
+const ENUM_RULES: Partial<Record<EntityName, Record<string, readonly string[]>>> = {
+  subscription: {
+    status: ['created', 'authenticated', 'active', 'pending', 'halted', 'paused', 'cancelled', 'completed', 'expired'],
+  },
+  payment: {
+    status: ['created', 'authorized', 'captured', 'refunded', 'failed'],
+  },
+};
+
+// Entities each event family must and may carry
+const EVENT_FAMILIES: { events: readonly string[]; required: EntityName; optional: EntityName[] }[] = [
+  { events: SUBSCRIPTION_EVENTS, required: 'subscription', optional: ['payment'] },
+  { events: PAYMENT_EVENTS, required: 'payment', optional: [] },
+  { events: INVOICE_EVENTS, required: 'invoice', optional: ['payment', 'order'] },
+  { events: REFUND_EVENTS, required: 'refund', optional: ['payment'] },
+  { events: PAYMENT_LINK_EVENTS, required: 'payment_link', optional: ['payment', 'order'] },
+  { events: ORDER_EVENTS, required: 'order', optional: ['payment'] },
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Returns a reason when the entity does not match its rules, normalizing empty notes in place
+const validateEntity = (payload: Record<string, unknown>, name: EntityName): string | null => {
+  const wrapper = payload[name];
+  if (!isObject(wrapper) || !isObject(wrapper.entity)) {
+    return `payload.${name}.entity is missing`;
+  }
+
+  const entity = wrapper.entity;
+  for (const [field, rule] of Object.entries(ENTITY_RULES[name])) {
+    const optional = rule.endsWith('?');
+    const type = rule.replace('?', '');
+    const value = entity[field];
+    const path = `payload.${name}.entity.${field}`;
+
+    if (value === undefined || value === null) {
+      if (!optional) {
+        return `${path} is required`;
+      }
+      if (type === 'notes') {
+        entity[field] = {};
+      }
+      continue;
+    }
+
+    if (type === 'notes') {
+      if (Array.isArray(value)) {
+        entity[field] = {};
+      } else if (!isObject(value)) {
+        return `${path} must be an object`;
+      }
+      continue;
+    }
+
+    if (typeof value !== type) {
+      return `${path} must be a ${type}, got ${typeof value}`;
+    }
+
+    const allowedValues = ENUM_RULES[name]?.[field];
+    if (allowedValues && !allowedValues.includes(value as string)) {
+      return `${path} has unexpected value "${value}"`;
+    }
+  }
+
+  return null;
+};
+
+// Validate a decoded webhook body before any handler touches it
+export const parseWebhookEvent = (input: unknown): WebhookParseResult => {
+  if (!isObject(input)) {
+    return { ok: false, reason: 'Webhook body is not a JSON object', eventType: null };
+  }
+
+  const eventType = typeof input.event === 'string' ? input.event : null;
+  if (!eventType) {
+    return { ok: false, reason: 'event must be a string', eventType: null };
+  }
+
+  const family = EVENT_FAMILIES.find((candidate) => candidate.events.includes(eventType));
+  if (!family) {
+    return { ok: false, reason: `Unsupported event type "${eventType}"`, eventType };
+  }
+
+  if (typeof input.created_at !== 'number') {
+    return { ok: false, reason: 'created_at must be a number', eventType };
+  }
+
+  if (!isObject(input.payload)) {
+    return { ok: false, reason: 'payload must be an object', eventType };
+  }
+
+  const requiredReason = validateEntity(input.payload, family.required);
+  if (requiredReason) {
+    return { ok: false, reason: requiredReason, eventType };
+  }
+
+  for (const name of family.optional) {
+    if (input.payload[name] === undefined) {
+      continue;
+    }
+    const optionalReason = validateEntity(input.payload, name);
+    if (optionalReason) {
+      return { ok: false, reason: optionalReason, eventType };
+    }
+  }
+
+  return { ok: true, event: input as unknown as RazorpayWebhookEvent };
+};
+
+export const isSubscriptionEvent = (event: RazorpayWebhookEvent): event is SubscriptionWebhookEvent =>
+  (SUBSCRIPTION_EVENTS as readonly string[]).includes(event.event);
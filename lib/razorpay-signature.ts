@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+
+// Secrets are read as comma-separated lists so a new secret can be added alongside the
+// old one and the old one removed once Razorpay only signs with the new secret.
+//   RAZORPAY_WEBHOOK_SECRETS (falls back to RAZORPAY_WEBHOOK_SECRET) - webhook deliveries
+//   RAZORPAY_SECRETS (falls back to RAZORPAY_SECRET) - checkout and payment link callbacks
+const parseSecretList = (list: string | undefined, fallback: string | undefined): string[] => {
+  const secrets = (list || fallback || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+
+  return Array.from(new Set(secrets));
+};
+
+export const getWebhookSecrets = (): string[] =>
+  parseSecretList(process.env.RAZORPAY_WEBHOOK_SECRETS, process.env.RAZORPAY_WEBHOOK_SECRET);
+
+export const getKeySecrets = (): string[] =>
+  parseSecretList(process.env.RAZORPAY_SECRETS, process.env.RAZORPAY_SECRET);
+
+// Constant-time string comparison - never short-circuits on the first differing character
+export const timingSafeStringEqual = (expected: string, provided: string): boolean => {
+  const expectedBuffer = Buffer.from(expected, 'utf8');
+  const providedBuffer = Buffer.from(provided, 'utf8');
+
+  if (expectedBuffer.length !== providedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+};
+
+const hmacSha256Hex = (payload: string, secret: string): string =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+const verifyWithSecrets = (payload: string, signature: string | null | undefined, secrets: string[]): boolean => {
+  if (!signature || secrets.length === 0) {
+    if (secrets.length === 0) {
+      console.error('No Razorpay secrets configured for signature verification');
+    }
+    return false;
+  }
+
+  // Check every secret so timing does not reveal which one matched
+  let isValid = false;
+  for (const secret of secrets) {
+    if (timingSafeStringEqual(hmacSha256Hex(payload, secret), signature)) {
+      isValid = true;
+    }
+  }
+  return isValid;
+};
+
+// Webhook: HMAC of the raw request body, sent as x-razorpay-signature
+export const verifyWebhookSignature = (
+  body: string,
+  signature: string | null | undefined,
+  secrets: string[] = getWebhookSecrets()
+): boolean => verifyWithSecrets(body, signature, secrets);
+
+// Subscription checkout: razorpay_payment_id|razorpay_subscription_id
+export const verifySubscriptionCheckoutSignature = (
+  { paymentId, subscriptionId, signature }: { paymentId: string; subscriptionId: string; signature: string },
+  secrets: string[] = getKeySecrets()
+): boolean => verifyWithSecrets(`${paymentId}|${subscriptionId}`, signature, secrets);
+
+// Order checkout: razorpay_order_id|razorpay_payment_id
+export const verifyOrderCheckoutSignature = (
+  { orderId, paymentId, signature }: { orderId: string; paymentId: string; signature: string },
+  secrets: string[] = getKeySecrets()
+): boolean => verifyWithSecrets(`${orderId}|${paymentId}`, signature, secrets);
+
+// Payment link callback: link_id|reference_id|status|payment_id (reference_id is empty when unset)
+export const verifyPaymentLinkSignature = (
+  { paymentLinkId, referenceId, status, paymentId, signature }: {
+    paymentLinkId: string;
+    referenceId: string | null;
+    status: string;
+    paymentId: string;
+    signature: string;
+  },
+  secrets: string[] = getKeySecrets()
+): boolean => verifyWithSecrets(`${paymentLinkId}|${referenceId || ''}|${status}|${paymentId}`, signature, secrets);
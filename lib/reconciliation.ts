@@ -0,0 +1,241 @@
+import Razorpay from 'razorpay';
+import { getPaidUpgradePlan } from '@/lib/billing-config';
+import { getTierRepository, TierEntity } from '@/lib/tier-repository';
+import { getPlanDetails } from '@/lib/plan-catalog';
+import { RazorpaySubscriptionEntity, SubscriptionEventType } from '@/lib/razorpay-events';
+import { applySubscriptionState } from '@/lib/webhook-processor';
+
+export type ReconciliationStatus =
+  | "in_sync"
+  | "drift" // Stored tier differs from Razorpay (dry run, or no webhook event can repair it)
+  | "repaired" // Drift was applied through the webhook handlers
+  | "failed"; // Subscription could not be fetched or the repair did not apply
+
+export interface ReconciliationDifference {
+  field: "tier" | "renewalPeriod" | "status" | "razorpayPlanId" | "subscriptionEndDate" | "isCancelled" | "userId";
+  stored: string | boolean | null;
+  live: string | boolean | null;
+}
+
+export interface ReconciliationResult {
+  userId: string;
+  subscriptionId: string;
+  status: ReconciliationStatus;
+  liveStatus: RazorpaySubscriptionEntity['status'] | null;
+  differences: ReconciliationDifference[];
+  repairEvent: SubscriptionEventType | null; // Event replayed (or that would be) to repair the drift
+  error?: string;
+}
+
+export interface ReconciliationReport {
+  dryRun: boolean;
+  startedAt: string; // UTC ISO
+  finishedAt: string; // UTC ISO
+  checkedCount: number;
+  inSyncCount: number;
+  driftCount: number;
+  repairedCount: number;
+  failedCount: number;
+  nextCursor: string | null; // Pass as cursor to continue; null once every subscription was checked
+  results: ReconciliationResult[]; // Only subscriptions that are not in sync
+}
+
+const RECONCILIATION_PAGE_SIZE = 50;
+
+// Statuses whose webhooks write the live plan, period and end date onto the tier
+const PLAN_SYNCED_STATUSES: RazorpaySubscriptionEntity['status'][] = ['authenticated', 'active', 'completed'];
+
+const getRazorpayClient = () => {
+  const keyId = process.env.RAZORPAY_ID;
+  const keySecret = process.env.RAZORPAY_SECRET;
+  if (!keyId || !keySecret) {
+    throw new Error('Razorpay credentials not configured');
+  }
+  return new Razorpay({ key_id: keyId, key_secret: keySecret });
+};
+
+// Razorpay SDK errors carry the API description instead of a message
+const describeError = (error: unknown) => {
+  const apiError = error as { error?: { description?: string }; message?: string };
+  return apiError?.error?.description || apiError?.message || 'Unknown error';
+};
+
+// The webhook that would have brought the stored tier to the live state. Paid users get
+// subscription.updated so a missed plan change is announced; everyone else a fresh activation.
+// created/expired subscriptions never reached the user, so there is nothing to replay.
+const getRepairEvent = (tierData: TierEntity, subscription: RazorpaySubscriptionEntity): SubscriptionEventType | null => {
+  switch (subscription.status) {
+    case 'active':
+      return tierData.tier === 'BASIC' || tierData.tier === 'PRO' ? 'subscription.updated' : 'subscription.activated';
+    case 'authenticated':
+    case 'pending':
+    case 'halted':
+    case 'paused':
+    case 'cancelled':
+    case 'completed':
+      return `subscription.${subscription.status}`;
+    default:
+      return null;
+  }
+};
+
+const compareSubscription = async (
+  tierData: TierEntity,
+  subscription: RazorpaySubscriptionEntity
+): Promise<ReconciliationDifference[]> => {
+  const billing = tierData.billing;
+  const differences: ReconciliationDifference[] = [];
+
+  const ownerId = subscription.notes?.userId?.replace('USER#', '') || null;
+  if (ownerId !== tierData.userId) {
+    differences.push({ field: 'userId', stored: tierData.userId, live: ownerId });
+  }
+  if ((billing?.status || null) !== subscription.status) {
+    differences.push({ field: 'status', stored: billing?.status || null, live: subscription.status });
+  }
+  if ((billing?.razorpayPlanId || null) !== subscription.plan_id) {
+    differences.push({ field: 'razorpayPlanId', stored: billing?.razorpayPlanId || null, live: subscription.plan_id });
+  }
+
+  const isCancelled = subscription.status === 'cancelled';
+  if (Boolean(billing?.isCancelled) !== isCancelled) {
+    differences.push({ field: 'isCancelled', stored: Boolean(billing?.isCancelled), live: isCancelled });
+  }
+
+  if (!PLAN_SYNCED_STATUSES.includes(subscription.status)) {
+    return differences;
+  }
+
+  // A paid prorated upgrade outranks the plan the old subscription is still billed at
+  const planDetails = getPaidUpgradePlan(billing, subscription) || await getPlanDetails(subscription.plan_id);
+  if (planDetails && tierData.tier !== planDetails.tier) {
+    differences.push({ field: 'tier', stored: tierData.tier, live: planDetails.tier });
+  }
+  if (planDetails && (billing?.renewalPeriod || null) !== planDetails.renewalPeriod) {
+    differences.push({ field: 'renewalPeriod', stored: billing?.renewalPeriod || null, live: planDetails.renewalPeriod });
+  }
+
+  // current_end stays null until the first charge
+  const liveEndDate = subscription.current_end ? new Date(subscription.current_end * 1000).toISOString() : null;
+  if (liveEndDate && (billing?.subscriptionEndDate || null) !== liveEndDate) {
+    differences.push({ field: 'subscriptionEndDate', stored: billing?.subscriptionEndDate || null, live: liveEndDate });
+  }
+
+  return differences;
+};
+
+const reconcileTier = async (
+  razorpay: Razorpay,
+  tierData: TierEntity,
+  dryRun: boolean
+): Promise<ReconciliationResult> => {
+  const subscriptionId = tierData.billing!.razorpaySubscriptionId!;
+  const result: ReconciliationResult = {
+    userId: tierData.userId,
+    subscriptionId,
+    status: 'in_sync',
+    liveStatus: null,
+    differences: [],
+    repairEvent: null,
+  };
+
+  let subscription: RazorpaySubscriptionEntity;
+  try {
+    const fetched = await razorpay.subscriptions.fetch(subscriptionId) as unknown as RazorpaySubscriptionEntity;
+    // The API returns [] for empty notes, like webhooks do
+    subscription = { ...fetched, notes: Array.isArray(fetched.notes) ? {} : fetched.notes || {} };
+  } catch (error) {
+    console.error('Failed to fetch subscription for reconciliation', { userId: tierData.userId, subscriptionId, error });
+    return { ...result, status: 'failed', error: describeError(error) };
+  }
+
+  result.liveStatus = subscription.status;
+  result.differences = await compareSubscription(tierData, subscription);
+  if (result.differences.length === 0) {
+    return result;
+  }
+
+  result.status = 'drift';
+  // Never move a subscription onto a user its notes do not name
+  if (result.differences.some((difference) => difference.field === 'userId')) {
+    return { ...result, error: 'Subscription notes name a different user' };
+  }
+
+  result.repairEvent = getRepairEvent(tierData, subscription);
+  if (dryRun || !result.repairEvent) {
+    return result;
+  }
+
+  try {
+    const applied = await applySubscriptionState(
+      subscription,
+      result.repairEvent,
+      `reconcile_${subscriptionId}_${Date.now()}`
+    );
+    if (applied.status !== 'processed') {
+      return { ...result, status: 'failed', error: applied.message };
+    }
+    console.log('Subscription drift repaired', {
+      userId: tierData.userId,
+      subscriptionId,
+      repairEvent: result.repairEvent,
+      fields: result.differences.map((difference) => difference.field)
+    });
+    return { ...result, status: 'repaired' };
+  } catch (error) {
+    console.error('Failed to repair subscription drift', { userId: tierData.userId, subscriptionId, error });
+    return { ...result, status: 'failed', error: describeError(error) };
+  }
+};
+
+// Compare stored tiers with their live Razorpay subscriptions, up to limit users starting after
+// cursor. Reports only unless dryRun is false, in which case drift is replayed through the
+// webhook handlers - the same ordering, handover and notification rules apply as for a delivery.
+export const reconcileSubscriptions = async (
+  { dryRun = true, limit = 200, cursor = null }: { dryRun?: boolean; limit?: number; cursor?: string | null } = {}
+): Promise<ReconciliationReport> => {
+  const razorpay = getRazorpayClient();
+  const startedAt = new Date().toISOString();
+  const results: ReconciliationResult[] = [];
+  let checkedCount = 0;
+  let nextCursor = cursor;
+
+  while (checkedCount < limit) {
+    const pageSize = Math.min(RECONCILIATION_PAGE_SIZE, limit - checkedCount);
+    const page = await getTierRepository().getSubscribedTiers(nextCursor, pageSize);
+    for (const tierData of page) {
+      results.push(await reconcileTier(razorpay, tierData, dryRun));
+    }
+
+    checkedCount += page.length;
+    if (page.length < pageSize) {
+      nextCursor = null;
+      break;
+    }
+    nextCursor = page[page.length - 1].billing!.razorpaySubscriptionId!;
+  }
+
+  const countOf = (status: ReconciliationStatus) => results.filter((result) => result.status === status).length;
+  const report: ReconciliationReport = {
+    dryRun,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    checkedCount,
+    inSyncCount: countOf('in_sync'),
+    driftCount: countOf('drift'),
+    repairedCount: countOf('repaired'),
+    failedCount: countOf('failed'),
+    nextCursor,
+    results: results.filter((result) => result.status !== 'in_sync'),
+  };
+
+  console.log('Subscription reconciliation finished', {
+    dryRun,
+    checked: report.checkedCount,
+    drift: report.driftCount,
+    repaired: report.repairedCount,
+    failed: report.failedCount,
+    nextCursor
+  });
+  return report;
+};
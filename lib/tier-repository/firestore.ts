@@ -0,0 +1,287 @@
+import { Query } from 'firebase-admin/firestore';
+import { getDb } from '@/lib/firebase';
+import {
+  isCancelledAccessExpired,
+  isPlanHandoverInFlight,
+  isSuspendedAccessExpired,
+} from '@/lib/billing-config';
+import {
+  applyFieldUpdates,
+  applyTierUpdates,
+  buildExpiryUpdates,
+  buildTierHistoryEntry,
+  buildTrialStart,
+  shouldRecordHistory,
+  snapshotTier,
+} from '@/lib/tier-repository/shared';
+import type { StoredTier, TierEntity, TierHistoryEntry, TierMutation, TierRepository } from '@/lib/tier-repository/types';
+
+const TIER_COLLECTION = 'tier';
+const TIER_HISTORY_SUBCOLLECTION = 'history';
+
+const userTierQuery = (userId: string) => getDb().collection(TIER_COLLECTION)
+  .where('PK', '==', `USER#${userId}`)
+  .where('SK', '==', 'TIER');
+
+// First document of a query with its id, the shape every lookup returns
+const firstTier = async (query: Query): Promise<StoredTier | null> => {
+  const querySnapshot = await query.limit(1).get();
+  if (querySnapshot.empty) {
+    return null;
+  }
+
+  return {
+    id: querySnapshot.docs[0].id,
+    ...querySnapshot.docs[0].data()
+  } as StoredTier;
+};
+
+// Read the user's tier, compute the change and write it with its history entry in one transaction.
+// Firestore re-runs the transaction when another write touched the tier in between.
+const mutateTier = async (userId: string, fn: (current: StoredTier) => TierMutation | null) => {
+  const query = userTierQuery(userId).limit(1);
+
+  const result = await getDb().runTransaction(async (transaction) => {
+    const querySnapshot = await transaction.get(query);
+    if (querySnapshot.empty) {
+      return null;
+    }
+
+    const doc = querySnapshot.docs[0];
+    const before = { id: doc.id, ...doc.data() } as StoredTier;
+    const mutation = fn(structuredClone(before));
+    if (!mutation) {
+      return { applied: false, before, after: before, historyReason: null };
+    }
+
+    const now = new Date().toISOString();
+    const updatedData = { ...mutation.updates, updatedAt: now };
+    const from = snapshotTier(before.tier, before.billing);
+    const to = applyTierUpdates(before, mutation.updates);
+
+    transaction.update(doc.ref, updatedData);
+    const recordsHistory = shouldRecordHistory(from, to, mutation.audit);
+    if (recordsHistory) {
+      transaction.set(
+        doc.ref.collection(TIER_HISTORY_SUBCOLLECTION).doc(),
+        buildTierHistoryEntry(userId, from, to, mutation.audit!, now)
+      );
+    }
+
+    return {
+      applied: true,
+      before,
+      after: applyFieldUpdates(before, updatedData),
+      historyReason: recordsHistory ? mutation.audit!.reason : null,
+    };
+  });
+
+  if (!result) {
+    return null;
+  }
+  if (result.historyReason) {
+    console.log('Tier history recorded', { userId, reason: result.historyReason, fromTier: result.before.tier, toTier: result.after.tier });
+  }
+  return { applied: result.applied, before: result.before, after: result.after };
+};
+
+export const firestoreTierRepository: TierRepository = {
+  getUserTier: async (userId) => await firstTier(userTierQuery(userId)),
+
+  getUserTierByCustomerId: async (customerId) =>
+    await firstTier(getDb().collection(TIER_COLLECTION).where('billing.razorpayCustomerId', '==', customerId)),
+
+  // Find the user a prorated upgrade order was quoted for
+  getUserTierByUpgradeOrderId: async (orderId) =>
+    await firstTier(getDb().collection(TIER_COLLECTION).where('billing.pendingUpgrade.orderId', '==', orderId)),
+
+  createUserTier: async (data) => {
+    const now = new Date().toISOString();
+    const tierData: TierEntity = {
+      ...data,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const docRef = await getDb().collection(TIER_COLLECTION).add(tierData);
+    console.log('User tier created with ID:', docRef.id);
+    return docRef.id;
+  },
+
+  mutateTier,
+
+  updateUserTier: async (userId, tier, billing, audit) => {
+    const result = await mutateTier(userId, () => ({ updates: { tier, ...(billing && { billing }) }, audit }));
+    if (!result) {
+      console.error('No user tier found for userId:', userId);
+      return null;
+    }
+
+    console.log('User tier updated for docId:', result.before.id);
+    return result.before.id;
+  },
+
+  updateUserTierGeneric: async (userId, updates, audit) => {
+    const result = await mutateTier(userId, () => ({ updates, audit }));
+    if (!result) {
+      console.error('No user tier found for userId:', userId);
+      return null;
+    }
+
+    console.log('User tier updated for docId:', result.before.id);
+    return result.before.id;
+  },
+
+  cancelUserSubscription: async (userId, reason = 'cancelled') => {
+    try {
+      const result = await mutateTier(userId, () => ({
+        updates: {
+          'billing.isCancelled': true,
+          'billing.cancellationDate': new Date().toISOString(),
+        },
+      }));
+
+      if (result) {
+        console.log('Marked subscription as cancelled for user:', userId, 'reason:', reason);
+        return result.before;
+      }
+    } catch (error) {
+      console.error('Error cancelling user subscription:', error);
+    }
+
+    return null;
+  },
+
+  recordTierHistory: async (userId, target, audit) => {
+    try {
+      const querySnapshot = await userTierQuery(userId).get();
+      if (querySnapshot.empty) {
+        console.error('No user tier found for userId:', userId);
+        return null;
+      }
+
+      const doc = querySnapshot.docs[0];
+      const existing = doc.data() as TierEntity;
+      const from = snapshotTier(existing.tier, existing.billing);
+      const entry = buildTierHistoryEntry(userId, from, { ...from, ...target }, audit, new Date().toISOString());
+
+      const entryRef = await doc.ref.collection(TIER_HISTORY_SUBCOLLECTION).add(entry);
+      console.log('Tier history recorded', { userId, reason: audit.reason, entryId: entryRef.id });
+      return entry;
+    } catch (error) {
+      console.error('Error recording tier history:', { userId, reason: audit.reason, error });
+      return null;
+    }
+  },
+
+  getTierHistory: async (userId, limit = 50) => {
+    const querySnapshot = await userTierQuery(userId).get();
+    if (querySnapshot.empty) {
+      return null;
+    }
+
+    const historySnapshot = await querySnapshot.docs[0].ref.collection(TIER_HISTORY_SUBCOLLECTION)
+      .orderBy('createdAt', 'desc')
+      .limit(limit)
+      .get();
+
+    return historySnapshot.docs.map((doc) => doc.data() as TierHistoryEntry);
+  },
+
+  // Two concurrent plan changes must not leave the user with two new mandates
+  claimPlanHandover: async (userId, handover) => {
+    const result = await mutateTier(userId, (current) =>
+      isPlanHandoverInFlight(current.billing?.pendingHandover)
+        ? null
+        : { updates: { 'billing.pendingHandover': handover } }
+    );
+    if (!result) {
+      throw new Error(`No user tier found for userId: ${userId}`);
+    }
+
+    const existing = result.before.billing?.pendingHandover || null;
+    return result.applied
+      ? { claimed: true, handover, replaced: existing }
+      : { claimed: false, handover: existing!, replaced: null };
+  },
+
+  // Runs in a transaction so two requests cannot both start a trial
+  startUserTrial: async (userId, trialDays, now = new Date()) => {
+    const query = userTierQuery(userId);
+
+    return await getDb().runTransaction(async (transaction) => {
+      const querySnapshot = await transaction.get(query);
+      const existingDoc = querySnapshot.empty ? null : querySnapshot.docs[0];
+      const trialStart = buildTrialStart(userId, existingDoc ? (existingDoc.data() as TierEntity) : null, trialDays, now);
+      if (!trialStart.started) {
+        return trialStart;
+      }
+
+      const docRef = existingDoc ? existingDoc.ref : getDb().collection(TIER_COLLECTION).doc();
+      transaction.set(docRef, trialStart.tier);
+      transaction.set(docRef.collection(TIER_HISTORY_SUBCOLLECTION).doc(), trialStart.entry);
+
+      return { started: true, tier: trialStart.tier };
+    });
+  },
+
+  // Re-checks inside the transaction so a renewal or conversion applied in the meantime wins
+  expireUserAccess: async (userId, { isExpired, billingUpdates = {}, audit, now = new Date() }) => {
+    const result = await mutateTier(userId, (current) =>
+      isExpired(current, now) ? { updates: buildExpiryUpdates(billingUpdates), audit } : null
+    );
+    return result?.applied ? result.before : null;
+  },
+
+  // Cancelled subscriptions whose paid period is over, oldest first
+  getEndedCancelledUserIds: async (now = new Date(), limit = 100) => {
+    const querySnapshot = await getDb().collection(TIER_COLLECTION)
+      .where('billing.isCancelled', '==', true)
+      .where('billing.subscriptionEndDate', '<=', now.toISOString())
+      .orderBy('billing.subscriptionEndDate')
+      .limit(limit)
+      .get();
+
+    return querySnapshot.docs
+      .map((doc) => doc.data() as TierEntity)
+      .filter((tierData) => isCancelledAccessExpired(tierData, now))
+      .map((tierData) => tierData.userId);
+  },
+
+  // Halted/paused subscriptions whose grace access is over
+  getSuspendedExpiredUserIds: async (now = new Date(), limit = 100) => {
+    const querySnapshot = await getDb().collection(TIER_COLLECTION)
+      .where('billing.accessEndsAt', '<=', now.toISOString())
+      .orderBy('billing.accessEndsAt')
+      .limit(limit)
+      .get();
+
+    return querySnapshot.docs
+      .map((doc) => doc.data() as TierEntity)
+      .filter((tierData) => isSuspendedAccessExpired(tierData, now))
+      .map((tierData) => tierData.userId);
+  },
+
+  // TRIAL users whose trial ended on or before now
+  getLapsedTrialUserIds: async (now = new Date(), limit = 100) => {
+    const querySnapshot = await getDb().collection(TIER_COLLECTION)
+      .where('tier', '==', 'TRIAL')
+      .where('billing.trialEndDate', '<=', now.toISOString())
+      .limit(limit)
+      .get();
+
+    return querySnapshot.docs.map((doc) => (doc.data() as TierEntity).userId);
+  },
+
+  getSubscribedTiers: async (afterSubscriptionId = null, limit = 50) => {
+    let query = getDb().collection(TIER_COLLECTION)
+      .where('billing.razorpaySubscriptionId', '>', '')
+      .orderBy('billing.razorpaySubscriptionId');
+    if (afterSubscriptionId) {
+      query = query.startAfter(afterSubscriptionId);
+    }
+
+    const querySnapshot = await query.limit(limit).get();
+    return querySnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as StoredTier);
+  },
+};
@@ -0,0 +1,154 @@
+import {
+  hasSubscriptionAccess,
+  isCancelledAccessExpired,
+  isPlanHandoverInFlight,
+  isSuspendedAccessExpired,
+  isTrialExpired,
+} from '@/lib/billing-config';
+import { getStorageBackend } from '@/lib/document-store';
+import { firestoreTierRepository } from '@/lib/tier-repository/firestore';
+import { createMemoryTierRepository } from '@/lib/tier-repository/memory';
+import type { TierEntity, TierRepository, UserTierInfo } from '@/lib/tier-repository/types';
+
+export type {
+  BillingInfo,
+  ExpireAccessOptions,
+  PaymentFailureInfo,
+  PendingMandateInfo,
+  PlanHandoverInfo,
+  ProratedUpgradeInfo,
+  ScheduledPlanChangeInfo,
+  StoredTier,
+  SubscriptionStatus,
+  TierChangeAudit,
+  TierChangeTrigger,
+  TierEntity,
+  TierHistoryEntry,
+  TierMutation,
+  TierMutationResult,
+  TierRepository,
+  TierSnapshot,
+  TrialStartResult,
+  TrialStatus,
+  UserTierInfo,
+} from '@/lib/tier-repository/types';
+export { createMemoryTierRepository, createMemoryTierStore } from '@/lib/tier-repository/memory';
+export type { MemoryTierStore } from '@/lib/tier-repository/memory';
+
+// Survives module reloads in next dev, so local data outlives an edit
+const globalForTiers = globalThis as typeof globalThis & { memoryTierRepository?: TierRepository };
+
+let overrideRepository: TierRepository | null = null;
+
+// Follows STORAGE_BACKEND like every other store
+export const getTierRepository = (): TierRepository => {
+  if (overrideRepository) {
+    return overrideRepository;
+  }
+  if (getStorageBackend() === 'memory') {
+    globalForTiers.memoryTierRepository ||= createMemoryTierRepository();
+    return globalForTiers.memoryTierRepository;
+  }
+  return firestoreTierRepository;
+};
+
+// Swap the backend, e.g. a fresh in-memory repository per test. null restores the configured one.
+export const setTierRepository = (repository: TierRepository | null) => {
+  overrideRepository = repository;
+};
+
+// Get user tier info in the simplified format
+export const getUserBilling = async (userId: string): Promise<UserTierInfo | null> => {
+  try {
+    const tiers = getTierRepository();
+    let tierData: TierEntity | null = await tiers.getUserTier(userId);
+    if (!tierData) {
+      return {
+        username: userId,
+        hasSubscription: false,
+      };
+    }
+
+    // Access that ran out is removed on read too, so it never outlives its end while the sweeper is behind
+    const expiryOnRead = isSuspendedAccessExpired(tierData)
+      ? { isExpired: isSuspendedAccessExpired, billingUpdates: {}, reason: 'suspended_access_expired' }
+      : isCancelledAccessExpired(tierData)
+        ? { isExpired: isCancelledAccessExpired, billingUpdates: { isConfirmationSent: false }, reason: 'cancelled_subscription_ended' }
+        : isTrialExpired(tierData)
+          ? { isExpired: isTrialExpired, billingUpdates: { trialStatus: 'expired' as const }, reason: 'trial_expired' }
+          : null;
+
+    if (expiryOnRead) {
+      console.log('Access ended - downgrading to NONE', {
+        userId,
+        reason: expiryOnRead.reason,
+        status: tierData.billing?.status,
+        accessEndsAt: tierData.billing?.accessEndsAt,
+        subscriptionEndDate: tierData.billing?.subscriptionEndDate
+      });
+      const expired = await tiers.expireUserAccess(userId, {
+        isExpired: expiryOnRead.isExpired,
+        billingUpdates: expiryOnRead.billingUpdates,
+        audit: { trigger: 'system', reason: expiryOnRead.reason, note: 'Expired on read' },
+      });
+      if (expired) {
+        tierData = {
+          ...tierData,
+          tier: 'NONE',
+          billing: tierData.billing && { ...tierData.billing, ...expiryOnRead.billingUpdates },
+        };
+      }
+    }
+
+    // Determine if user has active subscription
+    const hasActiveSubscription = Boolean(
+      tierData.billing && 
+      tierData.billing.razorpaySubscriptionId &&
+      !tierData.billing.isCancelled &&
+      (tierData.tier === 'BASIC' || tierData.tier === 'PRO') &&
+      hasSubscriptionAccess(tierData.billing)
+    );
+
+    const userTierInfo: UserTierInfo = {
+      username: userId,
+      hasSubscription: hasActiveSubscription,
+      tierEntity: {
+        tier: tierData.tier,
+        billing: tierData.billing ? {
+          cancellationDate: tierData.billing.cancellationDate,
+          isCancelled: tierData.billing.isCancelled,
+          isConfirmationSent: tierData.billing.isConfirmationSent,
+          paymentMethod: tierData.billing.paymentMethod,
+          razorpayCustomerId: tierData.billing.razorpayCustomerId,
+          razorpaySubscriptionId: tierData.billing.razorpaySubscriptionId,
+          razorpayPlanId: tierData.billing.razorpayPlanId,
+          renewalPeriod: tierData.billing.renewalPeriod,
+          subscriptionEndDate: tierData.billing.subscriptionEndDate,
+          subscriptionStartDate: tierData.billing.subscriptionStartDate,
+          trialEndDate: tierData.billing.trialEndDate,
+          trialStartDate: tierData.billing.trialStartDate,
+          trialStatus: tierData.billing.trialStatus,
+          trialConvertedAt: tierData.billing.trialConvertedAt,
+          status: tierData.billing.status,
+          statusChangedAt: tierData.billing.statusChangedAt,
+          accessEndsAt: tierData.billing.accessEndsAt,
+          lastPaymentStatus: tierData.billing.lastPaymentStatus,
+          lastPaymentAt: tierData.billing.lastPaymentAt,
+          lastPaymentFailure: tierData.billing.lastPaymentFailure,
+          failedPaymentCount: tierData.billing.failedPaymentCount,
+          pendingUpgrade: tierData.billing.pendingUpgrade,
+          pendingChange: tierData.billing.pendingChange,
+          // An expired handover link can no longer be completed
+          pendingHandover: isPlanHandoverInFlight(tierData.billing.pendingHandover) ? tierData.billing.pendingHandover : null,
+        } : undefined,
+        updatedAt: tierData.updatedAt,
+      }
+    };
+
+    return userTierInfo;
+  } catch (error) {
+    console.error('Error getting user billing:', error);
+    return null;
+  }
+};
+
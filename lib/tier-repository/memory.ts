@@ -0,0 +1,225 @@
+import { randomUUID } from 'crypto';
+import {
+  isCancelledAccessExpired,
+  isPlanHandoverInFlight,
+  isSuspendedAccessExpired,
+  isTrialExpired,
+} from '@/lib/billing-config';
+import {
+  applyFieldUpdates,
+  applyTierUpdates,
+  buildExpiryUpdates,
+  buildTierHistoryEntry,
+  buildTrialStart,
+  shouldRecordHistory,
+  snapshotTier,
+} from '@/lib/tier-repository/shared';
+import type {
+  StoredTier,
+  TierEntity,
+  TierHistoryEntry,
+  TierMutation,
+  TierMutationResult,
+  TierRepository,
+} from '@/lib/tier-repository/types';
+
+export interface MemoryTierStore {
+  tiers: Map<string, TierEntity>; // Keyed by document id
+  history: Map<string, TierHistoryEntry[]>; // Keyed by tier document id, oldest first
+}
+
+export const createMemoryTierStore = (): MemoryTierStore => ({ tiers: new Map(), history: new Map() });
+
+// Callers get copies, so nothing outside the repository can change stored state
+const copy = <T>(value: T): T => structuredClone(value);
+
+// Tier repository kept in process memory - for tests and local development without Firestore.
+// Every method reads and writes without awaiting in between, so each call is atomic on its own.
+export const createMemoryTierRepository = (store: MemoryTierStore = createMemoryTierStore()): TierRepository => {
+  const findEntry = (predicate: (tierData: TierEntity) => boolean): [string, TierEntity] | null => {
+    for (const entry of store.tiers) {
+      if (predicate(entry[1])) {
+        return entry;
+      }
+    }
+    return null;
+  };
+
+  const findUserEntry = (userId: string) =>
+    findEntry((tierData) => tierData.PK === `USER#${userId}` && tierData.SK === 'TIER');
+
+  const toStoredTier = (entry: [string, TierEntity] | null): StoredTier | null =>
+    entry ? { id: entry[0], ...copy(entry[1]) } : null;
+
+  const appendHistory = (docId: string, entry: TierHistoryEntry) => {
+    store.history.set(docId, [...(store.history.get(docId) || []), copy(entry)]);
+  };
+
+  // Nothing is awaited between the read and the write, so concurrent calls for a user run one after another
+  const mutateTier = async (userId: string, fn: (current: StoredTier) => TierMutation | null): Promise<TierMutationResult | null> => {
+    const entry = findUserEntry(userId);
+    if (!entry) {
+      return null;
+    }
+
+    const before = toStoredTier(entry)!;
+    const mutation = fn(copy(before));
+    if (!mutation) {
+      return { applied: false, before, after: before };
+    }
+
+    const now = new Date().toISOString();
+    const from = snapshotTier(before.tier, before.billing);
+    const to = applyTierUpdates(before, mutation.updates);
+    const after = applyFieldUpdates(before, { ...mutation.updates, updatedAt: now });
+
+    const { id, ...stored } = after;
+    store.tiers.set(id, stored);
+    if (shouldRecordHistory(from, to, mutation.audit)) {
+      appendHistory(id, buildTierHistoryEntry(userId, from, to, mutation.audit, now));
+      console.log('Tier history recorded', { userId, reason: mutation.audit.reason, fromTier: from.tier, toTier: to.tier });
+    }
+
+    return { applied: true, before, after: copy(after) };
+  };
+
+  const listUserIds = (predicate: (tierData: TierEntity) => boolean, orderBy: (tierData: TierEntity) => string, limit: number) =>
+    Array.from(store.tiers.values())
+      .filter(predicate)
+      .sort((a, b) => orderBy(a).localeCompare(orderBy(b)))
+      .slice(0, limit)
+      .map((tierData) => tierData.userId);
+
+  return {
+    getUserTier: async (userId) => toStoredTier(findUserEntry(userId)),
+
+    getUserTierByCustomerId: async (customerId) =>
+      toStoredTier(findEntry((tierData) => tierData.billing?.razorpayCustomerId === customerId)),
+
+    getUserTierByUpgradeOrderId: async (orderId) =>
+      toStoredTier(findEntry((tierData) => tierData.billing?.pendingUpgrade?.orderId === orderId)),
+
+    createUserTier: async (data) => {
+      const now = new Date().toISOString();
+      const docId = randomUUID();
+      store.tiers.set(docId, copy({ ...data, createdAt: now, updatedAt: now }));
+      console.log('User tier created with ID:', docId);
+      return docId;
+    },
+
+    mutateTier,
+
+    updateUserTier: async (userId, tier, billing, audit) => {
+      const result = await mutateTier(userId, () => ({ updates: { tier, ...(billing && { billing }) }, audit }));
+      if (!result) {
+        console.error('No user tier found for userId:', userId);
+      }
+      return result?.before.id || null;
+    },
+
+    updateUserTierGeneric: async (userId, updates, audit) => {
+      const result = await mutateTier(userId, () => ({ updates, audit }));
+      if (!result) {
+        console.error('No user tier found for userId:', userId);
+      }
+      return result?.before.id || null;
+    },
+
+    cancelUserSubscription: async (userId, reason = 'cancelled') => {
+      const result = await mutateTier(userId, () => ({
+        updates: { 'billing.isCancelled': true, 'billing.cancellationDate': new Date().toISOString() },
+      }));
+      if (result) {
+        console.log('Marked subscription as cancelled for user:', userId, 'reason:', reason);
+      }
+      return result?.before || null;
+    },
+
+    recordTierHistory: async (userId, target, audit) => {
+      const entry = findUserEntry(userId);
+      if (!entry) {
+        console.error('No user tier found for userId:', userId);
+        return null;
+      }
+
+      const from = snapshotTier(entry[1].tier, entry[1].billing);
+      const historyEntry = buildTierHistoryEntry(userId, from, { ...from, ...target }, audit, new Date().toISOString());
+      appendHistory(entry[0], historyEntry);
+      return historyEntry;
+    },
+
+    getTierHistory: async (userId, limit = 50) => {
+      const entry = findUserEntry(userId);
+      if (!entry) {
+        return null;
+      }
+
+      return copy((store.history.get(entry[0]) || []).slice(-limit).reverse());
+    },
+
+    claimPlanHandover: async (userId, handover) => {
+      const result = await mutateTier(userId, (current) =>
+        isPlanHandoverInFlight(current.billing?.pendingHandover)
+          ? null
+          : { updates: { 'billing.pendingHandover': handover } }
+      );
+      if (!result) {
+        throw new Error(`No user tier found for userId: ${userId}`);
+      }
+
+      const existing = result.before.billing?.pendingHandover || null;
+      return result.applied
+        ? { claimed: true, handover, replaced: existing }
+        : { claimed: false, handover: existing!, replaced: null };
+    },
+
+    startUserTrial: async (userId, trialDays, now = new Date()) => {
+      const entry = findUserEntry(userId);
+      const trialStart = buildTrialStart(userId, entry ? copy(entry[1]) : null, trialDays, now);
+      if (!trialStart.started) {
+        return trialStart;
+      }
+
+      const docId = entry ? entry[0] : randomUUID();
+      store.tiers.set(docId, copy(trialStart.tier));
+      appendHistory(docId, trialStart.entry);
+      return { started: true, tier: trialStart.tier };
+    },
+
+    expireUserAccess: async (userId, { isExpired, billingUpdates = {}, audit, now = new Date() }) => {
+      const result = await mutateTier(userId, (current) =>
+        isExpired(current, now) ? { updates: buildExpiryUpdates(billingUpdates), audit } : null
+      );
+      return result?.applied ? result.before : null;
+    },
+
+    getEndedCancelledUserIds: async (now = new Date(), limit = 100) =>
+      listUserIds(
+        (tierData) => isCancelledAccessExpired(tierData, now),
+        (tierData) => tierData.billing?.subscriptionEndDate || '',
+        limit
+      ),
+
+    getSuspendedExpiredUserIds: async (now = new Date(), limit = 100) =>
+      listUserIds(
+        (tierData) => isSuspendedAccessExpired(tierData, now),
+        (tierData) => tierData.billing?.accessEndsAt || '',
+        limit
+      ),
+
+    getLapsedTrialUserIds: async (now = new Date(), limit = 100) =>
+      listUserIds(
+        (tierData) => isTrialExpired(tierData, now),
+        (tierData) => tierData.billing?.trialEndDate || '',
+        limit
+      ),
+
+    getSubscribedTiers: async (afterSubscriptionId = null, limit = 50) =>
+      Array.from(store.tiers.entries())
+        .filter(([, tierData]) => Boolean(tierData.billing?.razorpaySubscriptionId) &&
+          (!afterSubscriptionId || tierData.billing!.razorpaySubscriptionId! > afterSubscriptionId))
+        .sort(([, a], [, b]) => a.billing!.razorpaySubscriptionId!.localeCompare(b.billing!.razorpaySubscriptionId!))
+        .slice(0, limit)
+        .map((entry) => toStoredTier(entry)!),
+  };
+};
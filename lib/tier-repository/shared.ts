@@ -0,0 +1,140 @@
+import type { BillingInfo, TierChangeAudit, TierEntity, TierHistoryEntry, TierSnapshot, TrialStartResult } from '@/lib/tier-repository/types';
+
+// Backend-independent tier logic - both repositories must record history and trials the same way
+
+export const snapshotTier = (tier: TierEntity['tier'], billing: Partial<BillingInfo> | undefined): TierSnapshot => ({
+  tier,
+  planId: billing?.razorpayPlanId || null,
+  renewalPeriod: billing?.renewalPeriod || null,
+  subscriptionId: billing?.razorpaySubscriptionId || null,
+  status: billing?.status || null,
+});
+
+// Set a dotted field path like 'billing.pendingHandover.authenticatedAt', creating missing parents
+export const setFieldPath = (target: Record<string, any>, path: string, value: unknown) => {
+  const keys = path.split('.');
+  let parent = target;
+  for (const key of keys.slice(0, -1)) {
+    if (parent[key] === null || typeof parent[key] !== 'object') {
+      parent[key] = {};
+    }
+    parent = parent[key];
+  }
+  parent[keys[keys.length - 1]] = value;
+};
+
+// The tier after a Firestore-style update: top-level fields replace, dotted paths set nested fields
+export const applyFieldUpdates = <T extends TierEntity>(existing: T, updates: Record<string, any>): T => {
+  const updated = structuredClone(existing) as T & Record<string, any>;
+  for (const [path, value] of Object.entries(updates)) {
+    setFieldPath(updated, path, structuredClone(value));
+  }
+  return updated;
+};
+
+// Plan state after applying field updates, including dotted billing paths like 'billing.status'
+export const applyTierUpdates = (existing: TierEntity, updates: Record<string, any>): TierSnapshot => {
+  const updated = applyFieldUpdates(existing, updates);
+  return snapshotTier(updated.tier, updated.billing);
+};
+
+export const isTierTransition = (from: TierSnapshot | null, to: TierSnapshot) =>
+  !from ||
+  from.tier !== to.tier ||
+  from.planId !== to.planId ||
+  from.renewalPeriod !== to.renewalPeriod ||
+  from.subscriptionId !== to.subscriptionId ||
+  from.status !== to.status;
+
+export const buildTierHistoryEntry = (
+  userId: string,
+  from: TierSnapshot | null,
+  to: TierSnapshot,
+  audit: TierChangeAudit,
+  now: string
+): TierHistoryEntry => ({
+  PK: `USER#${userId}`,
+  SK: `HISTORY#${now}`,
+  entityType: "TierHistory",
+  userId,
+  fromTier: from?.tier || null,
+  toTier: to.tier,
+  fromPlanId: from?.planId || null,
+  toPlanId: to.planId,
+  fromRenewalPeriod: from?.renewalPeriod || null,
+  toRenewalPeriod: to.renewalPeriod,
+  fromSubscriptionId: from?.subscriptionId || null,
+  toSubscriptionId: to.subscriptionId,
+  fromStatus: from?.status || null,
+  toStatus: to.status,
+  trigger: audit.trigger,
+  reason: audit.reason,
+  eventId: audit.eventId || null,
+  actor: audit.actor || null,
+  amount: audit.amount ?? null,
+  currency: audit.currency || null,
+  paymentId: audit.paymentId || null,
+  orderId: audit.orderId || null,
+  note: audit.note || null,
+  createdAt: now,
+});
+
+// History is written with an audited update when the plan state changed or money moved
+export const shouldRecordHistory = (from: TierSnapshot, to: TierSnapshot, audit: TierChangeAudit | undefined): audit is TierChangeAudit =>
+  Boolean(audit) && (isTierTransition(from, to) || audit!.amount != null);
+
+// The tier document and history entry for a new trial, or why the user cannot start one
+export const buildTrialStart = (
+  userId: string,
+  existing: TierEntity | null,
+  trialDays: number,
+  now: Date
+): Extract<TrialStartResult, { started: false }> | { started: true; tier: TierEntity; entry: TierHistoryEntry } => {
+  if (existing?.billing?.trialStatus || existing?.billing?.trialStartDate) {
+    return { started: false, reason: 'trial_used', tier: existing };
+  }
+  if (existing && existing.tier !== 'NONE') {
+    return { started: false, reason: 'has_subscription', tier: existing };
+  }
+
+  const nowIso = now.toISOString();
+  const billing: BillingInfo = {
+    ...existing?.billing,
+    renewalPeriod: existing?.billing?.renewalPeriod || null,
+    subscriptionStartDate: existing?.billing?.subscriptionStartDate || null,
+    subscriptionEndDate: existing?.billing?.subscriptionEndDate || null,
+    trialStartDate: nowIso,
+    trialEndDate: new Date(now.getTime() + trialDays * 24 * 60 * 60 * 1000).toISOString(),
+    trialStatus: 'active',
+    trialConvertedAt: null,
+  };
+  const tier: TierEntity = {
+    PK: `USER#${userId}`,
+    SK: 'TIER',
+    entityType: 'Tier',
+    userId,
+    createdAt: existing?.createdAt || nowIso,
+    ...existing,
+    tier: 'TRIAL',
+    billing,
+    updatedAt: nowIso,
+  };
+  const entry = buildTierHistoryEntry(
+    userId,
+    existing ? snapshotTier(existing.tier, existing.billing) : null,
+    snapshotTier('TRIAL', billing),
+    { trigger: 'user_request', reason: 'trial_started', actor: userId, note: `${trialDays}-day trial until ${billing.trialEndDate}` },
+    nowIso
+  );
+
+  return { started: true, tier, entry };
+};
+
+// Field updates that expire access, as dotted paths
+export const buildExpiryUpdates = (billingUpdates: Partial<BillingInfo>) => {
+  const updates: Record<string, any> = { tier: 'NONE' };
+  for (const [field, value] of Object.entries(billingUpdates)) {
+    updates[`billing.${field}`] = value;
+  }
+  return updates;
+};
@@ -0,0 +1,260 @@
+// Razorpay subscription lifecycle states
+export type SubscriptionStatus =
+  | "created"
+  | "authenticated"
+  | "active"
+  | "pending"
+  | "halted"
+  | "paused"
+  | "cancelled"
+  | "completed"
+  | "expired";
+
+export type TrialStatus = "active" | "expired" | "converted";
+
+export interface PaymentFailureInfo {
+  paymentId: string; // Razorpay payment ID
+  amount: number; // in paise
+  errorCode: string | null;
+  errorDescription: string | null;
+  failedAt: string; // UTC ISO
+  isRenewal: boolean; // Whether the failed payment was a recurring charge on an existing subscription
+}
+
+export interface ProratedUpgradeInfo {
+  orderId: string; // Razorpay order the prorated amount was computed for - empty while it is being created
+  paymentLinkId: string | null; // Payment link sent to the customer
+  amount: number; // in paise
+  status: "pending" | "paid" | "expired" | "cancelled";
+  targetTier: "BASIC" | "PRO" | null; // Tier granted once the payment completes
+  targetRenewalPeriod: "MONTHLY" | "ANNUAL" | null;
+  previousTier: "NONE" | "BASIC" | "PRO" | "TRIAL" | null; // Tier before the upgrade was applied
+  paymentId: string | null; // Razorpay payment that completed the link
+  subscriptionId?: string | null; // Subscription still billed at the old plan when the upgrade was quoted
+  paidThrough?: string | null; // UTC ISO - end of the cycle the prorated payment covers
+  createdAt: string; // UTC ISO
+  resolvedAt: string | null; // UTC ISO - when the link was paid, expired or cancelled
+}
+
+export interface ScheduledPlanChangeInfo {
+  targetTier: "BASIC" | "PRO";
+  targetRenewalPeriod: "MONTHLY" | "ANNUAL";
+  targetPlanId: string; // Razorpay plan the subscription switches to
+  previousPlanId: string | null; // Razorpay plan until the change applies
+  changeType: "upgrade" | "downgrade" | "period_change";
+  requestedAt: string; // UTC ISO
+  effectiveAt: string | null; // UTC ISO - cycle end when Razorpay applies the change
+}
+
+// UPI mandates cannot change plan in place - a new subscription replaces the old one
+export interface PlanHandoverInfo {
+  newSubscriptionId: string; // Subscription the user authenticates with the new mandate
+  newPlanId: string;
+  targetTier: "BASIC" | "PRO";
+  targetRenewalPeriod: "MONTHLY" | "ANNUAL";
+  previousSubscriptionId: string; // Cancelled once the new subscription activates
+  changeType: "upgrade" | "downgrade" | "period_change";
+  paymentUrl: string | null; // Razorpay authentication link for the new mandate
+  startedAt: string; // UTC ISO
+  expiresAt: string; // UTC ISO - the link stops accepting authentication after this
+  startAt?: string | null; // UTC ISO - deferred start at the old subscription's cycle end, null for immediate
+  authenticatedAt?: string | null; // UTC ISO - mandate approved; a deferred handover waits for startAt from here
+  previousCancelScheduledAt?: string | null; // UTC ISO - old subscription set to cancel at its cycle end
+}
+
+// Mandate setup for a user with no running subscription to hand over from - a plain new subscription
+export interface PendingMandateInfo {
+  subscriptionId: string; // Subscription the user authenticates
+  planId: string;
+  targetTier: "BASIC" | "PRO";
+  targetRenewalPeriod: "MONTHLY" | "ANNUAL";
+  paymentUrl: string | null; // Razorpay authentication link
+  createdAt: string; // UTC ISO
+  expiresAt: string; // UTC ISO - the link stops accepting authentication after this
+}
+
+export interface BillingInfo {
+  renewalPeriod: "MONTHLY" | "ANNUAL" | null;
+  trialStartDate: string | null; // UTC ISO - when the free trial started, kept after it ends or converts
+  trialEndDate: string | null; // UTC ISO - when the free trial ends
+  trialStatus?: TrialStatus | null; // Set once a trial was started - a user only ever gets one
+  trialConvertedAt?: string | null; // UTC ISO - when a paid subscription replaced the trial
+  subscriptionStartDate: string | null; // UTC ISO - when paid subscription started
+  subscriptionEndDate: string | null; // UTC ISO - when subscription expires
+  razorpaySubscriptionId?: string | null; // Razorpay subscription ID for management
+  razorpayPlanId?: string | null; // Razorpay plan the subscription is currently on
+  razorpayCustomerId?: string; // Razorpay customer ID
+  paymentMethod?: string; // Payment method used (upi, card, netbanking, wallet, etc.)
+  isConfirmationSent?: boolean; // Track if subscription confirmation message was sent
+  // Simple cancellation support
+  isCancelled?: boolean; // Whether subscription is cancelled but still active
+  cancellationDate?: string | null; // When subscription was cancelled
+  // Lifecycle state - halted/paused subscriptions keep access only until accessEndsAt
+  status?: SubscriptionStatus | null; // Razorpay subscription status from the last applied event
+  statusChangedAt?: string | null; // UTC ISO - when status last changed
+  accessEndsAt?: string | null; // UTC ISO - end of grace access while halted or paused
+  // Webhook ordering - events older than the last applied one are rejected
+  lastEventAt?: number | null; // Razorpay created_at (unix seconds) of the last applied webhook event
+  lastEventType?: string | null; // Type of the last applied webhook event
+  lastEventSubscriptionId?: string | null; // Subscription the last applied webhook event belonged to
+  // Payment tracking from payment.* webhooks
+  lastPaymentId?: string | null; // Most recent Razorpay payment ID
+  lastPaymentStatus?: string | null; // Status of the most recent payment (authorized, captured, failed)
+  lastPaymentAt?: string | null; // UTC ISO - when the most recent payment was created
+  lastPaymentFailure?: PaymentFailureInfo | null; // Set while the latest payment attempt has failed
+  failedPaymentCount?: number; // Consecutive failed payments since the last successful one
+  // Prorated upgrade paid through a one-time payment link
+  pendingUpgrade?: ProratedUpgradeInfo | null;
+  // Downgrade or period reduction scheduled with Razorpay for the end of the current cycle
+  pendingChange?: ScheduledPlanChangeInfo | null;
+  // UPI plan change waiting for the new mandate to activate
+  pendingHandover?: PlanHandoverInfo | null;
+  // New subscription from setup-new-subscription waiting for its mandate - cleared once it runs
+  pendingMandate?: PendingMandateInfo | null;
+  replacedSubscriptionId?: string | null; // Subscription retired by the last handover - its events are ignored
+  // Contact details from the latest payment, used for notifications
+  contactEmail?: string | null;
+  contactPhone?: string | null; // Digits only, e.g. 919700550849
+}
+
+export interface TierEntity {
+  PK: string; // USER#{userId}
+  SK: string; // TIER
+  entityType: "Tier";
+  userId: string;
+  tier: "NONE" | "BASIC" | "PRO" | "TRIAL";
+  expiryTTL?: number; // Unix timestamp for DynamoDB TTL (only for TRIAL)
+  billing?: BillingInfo;
+  createdAt: string; // UTC ISO
+  updatedAt: string; // UTC ISO
+}
+
+// What caused a tier transition - support reads these to explain charges and downgrades
+export type TierChangeTrigger = "user_request" | "webhook" | "admin" | "system";
+
+export interface TierChangeAudit {
+  trigger: TierChangeTrigger;
+  reason: string; // Short cause, e.g. subscription.charged or plan_change_requested
+  eventId?: string | null; // Razorpay webhook event ID
+  actor?: string | null; // User or admin who initiated the change
+  amount?: number | null; // in paise - charged (positive) or credited (negative) with this change
+  currency?: string | null;
+  paymentId?: string | null;
+  orderId?: string | null;
+  note?: string | null;
+}
+
+// Plan state compared before and after an update
+export interface TierSnapshot {
+  tier: TierEntity['tier'];
+  planId: string | null;
+  renewalPeriod: BillingInfo['renewalPeriod'];
+  subscriptionId: string | null;
+  status: SubscriptionStatus | null;
+}
+
+// Stored in the tier/{docId}/history subcollection, newest last
+export interface TierHistoryEntry {
+  PK: string; // USER#{userId}
+  SK: string; // HISTORY#{createdAt}
+  entityType: "TierHistory";
+  userId: string;
+  fromTier: TierEntity['tier'] | null;
+  toTier: TierEntity['tier'];
+  fromPlanId: string | null;
+  toPlanId: string | null;
+  fromRenewalPeriod: BillingInfo['renewalPeriod'];
+  toRenewalPeriod: BillingInfo['renewalPeriod'];
+  fromSubscriptionId: string | null;
+  toSubscriptionId: string | null;
+  fromStatus: SubscriptionStatus | null;
+  toStatus: SubscriptionStatus | null;
+  trigger: TierChangeTrigger;
+  reason: string;
+  eventId: string | null;
+  actor: string | null;
+  amount: number | null; // in paise
+  currency: string | null;
+  paymentId: string | null;
+  orderId: string | null;
+  note: string | null;
+  createdAt: string; // UTC ISO
+}
+
+export interface UserTierInfo {
+  username: string;
+  hasSubscription: boolean;
+  tierEntity?: {
+    tier: "NONE" | "BASIC" | "PRO" | "TRIAL";
+    billing?: BillingInfo;
+    updatedAt: string;
+  };
+}
+
+export type TrialStartResult =
+  | { started: true; tier: TierEntity }
+  | { started: false; reason: "trial_used" | "has_subscription"; tier: TierEntity };
+
+export interface ExpireAccessOptions {
+  isExpired: (tierData: TierEntity, now: Date) => boolean; // Re-checked against the stored tier before expiring
+  billingUpdates?: Partial<BillingInfo>;
+  audit: TierChangeAudit;
+  now?: Date;
+}
+
+export type StoredTier = TierEntity & { id: string };
+
+// A change computed from the current tier - updates use updateUserTierGeneric's shape
+export interface TierMutation {
+  updates: Partial<TierEntity> | Record<string, any>;
+  audit?: TierChangeAudit;
+}
+
+export interface TierMutationResult {
+  applied: boolean; // False when the mutation function returned null
+  before: StoredTier;
+  after: StoredTier;
+}
+
+// Storage for tier documents and their history. Writes that pass an audit record a history entry
+// with the change when the plan state changed or money moved.
+export interface TierRepository {
+  getUserTier: (userId: string) => Promise<StoredTier | null>;
+  getUserTierByCustomerId: (customerId: string) => Promise<StoredTier | null>;
+  getUserTierByUpgradeOrderId: (orderId: string) => Promise<StoredTier | null>;
+  createUserTier: (data: Omit<TierEntity, 'updatedAt' | 'createdAt'>) => Promise<string>;
+  // Read-modify-write in one step: fn sees the latest stored tier and returns the change to apply,
+  // or null to leave it. fn may run more than once, so it must not have side effects.
+  // Resolves with null when the user has no tier document.
+  mutateTier: (userId: string, fn: (current: StoredTier) => TierMutation | null) => Promise<TierMutationResult | null>;
+  // Replace the tier and, when given, the whole billing object. Returns the document id, or null without a tier.
+  updateUserTier: (
+    userId: string,
+    tier: TierEntity['tier'],
+    billing?: BillingInfo,
+    audit?: TierChangeAudit
+  ) => Promise<string | null>;
+  // Field updates; keys may be dotted billing paths like 'billing.status'
+  updateUserTierGeneric: (
+    userId: string,
+    updates: Partial<TierEntity> | Record<string, any>,
+    audit?: TierChangeAudit
+  ) => Promise<string | null>;
+  cancelUserSubscription: (userId: string, reason?: string) => Promise<TierEntity | null>;
+  // History entry without a tier change. Never throws - the request it documents already went through.
+  recordTierHistory: (userId: string, target: Partial<TierSnapshot>, audit: TierChangeAudit) => Promise<TierHistoryEntry | null>;
+  getTierHistory: (userId: string, limit?: number) => Promise<TierHistoryEntry[] | null>; // Newest first
+  // Record a UPI handover unless another one is already in flight
+  claimPlanHandover: (
+    userId: string,
+    handover: PlanHandoverInfo
+  ) => Promise<{ claimed: boolean; handover: PlanHandoverInfo; replaced: PlanHandoverInfo | null }>;
+  startUserTrial: (userId: string, trialDays: number, now?: Date) => Promise<TrialStartResult>;
+  // Move the user to NONE when isExpired still holds. Returns the tier before the change, or null.
+  expireUserAccess: (userId: string, options: ExpireAccessOptions) => Promise<TierEntity | null>;
+  getEndedCancelledUserIds: (now?: Date, limit?: number) => Promise<string[]>;
+  getSuspendedExpiredUserIds: (now?: Date, limit?: number) => Promise<string[]>;
+  getLapsedTrialUserIds: (now?: Date, limit?: number) => Promise<string[]>;
+  // Tiers linked to a Razorpay subscription, in subscription id order, after the given subscription id
+  getSubscribedTiers: (afterSubscriptionId?: string | null, limit?: number) => Promise<StoredTier[]>;
+}
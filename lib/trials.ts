@@ -0,0 +1,68 @@
+import { isTrialExpired, TRIAL_DAYS } from '@/lib/billing-config';
+import { getTierRepository, TierEntity } from '@/lib/tier-repository';
+import { notifyUser, resolveRecipient } from '@/lib/notifications';
+
+export interface TrialExpiryResult {
+  userId: string;
+  status: 'expired' | 'skipped' | 'failed';
+  error?: string;
+}
+
+// Start the user's free trial and tell them when it ends
+export const startTrial = async (userId: string, now: Date = new Date()) => {
+  const result = await getTierRepository().startUserTrial(userId, TRIAL_DAYS, now);
+
+  if (result.started) {
+    console.log('Free trial started', { userId, trialEndDate: result.tier.billing?.trialEndDate });
+    await notifyUser(userId, 'trial_started', {
+      dedupeKey: `${userId}-trial`,
+      data: { tier: 'TRIAL', periodEnd: result.tier.billing?.trialEndDate },
+      recipient: resolveRecipient(userId, result.tier.billing),
+    });
+  }
+
+  return result;
+};
+
+const notifyTrialExpired = async (userId: string, tier: TierEntity) => {
+  await notifyUser(userId, 'trial_expired', {
+    dedupeKey: `${userId}-trial`,
+    data: { tier: 'NONE', previousTier: 'TRIAL', periodEnd: tier.billing?.trialEndDate },
+    recipient: resolveRecipient(userId, tier.billing),
+  });
+};
+
+// Move every lapsed trial to NONE. Safe to run repeatedly - each user is re-checked in a transaction,
+// so converted trials and trials already expired on read are skipped.
+export const expireLapsedTrials = async (limit: number = 100, now: Date = new Date()): Promise<TrialExpiryResult[]> => {
+  const tiers = getTierRepository();
+  const userIds = await tiers.getLapsedTrialUserIds(now, limit);
+  const results: TrialExpiryResult[] = [];
+
+  for (const userId of userIds) {
+    try {
+      const expired = await tiers.expireUserAccess(userId, {
+        isExpired: isTrialExpired,
+        billingUpdates: { trialStatus: 'expired' },
+        audit: { trigger: 'system', reason: 'trial_expired' },
+        now,
+      });
+      if (!expired) {
+        results.push({ userId, status: 'skipped' });
+        continue;
+      }
+
+      await notifyTrialExpired(userId, expired);
+      results.push({ userId, status: 'expired' });
+    } catch (error) {
+      console.error('Failed to expire trial', { userId, error });
+      results.push({ userId, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  console.log('Trial expiry run finished', {
+    checked: userIds.length,
+    expired: results.filter((result) => result.status === 'expired').length
+  });
+  return results;
+};
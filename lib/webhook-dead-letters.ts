@@ -0,0 +1,94 @@
+import { getCollection } from '@/lib/document-store';
+
+export type DeadLetterStatus = 'pending' | 'replayed' | 'replay_failed';
+
+export interface WebhookDeadLetter {
+  id: string; // Event id when known, otherwise a generated document id
+  eventId: string | null; // x-razorpay-event-id header
+  eventType: string | null;
+  rawBody: string; // Exact body Razorpay signed - required to re-verify on replay
+  headers: Record<string, string>;
+  error: string;
+  errorStack: string | null;
+  status: DeadLetterStatus;
+  failureCount: number; // Deliveries that failed with this event
+  replayCount: number;
+  lastReplayError: string | null;
+  createdAt: string; // UTC ISO
+  updatedAt: string; // UTC ISO
+  replayedAt: string | null; // UTC ISO - last successful replay
+}
+
+const deadLetters = () => getCollection<WebhookDeadLetter>('webhookDeadLetters');
+
+// Never persist credentials a proxy may have added to the request
+const REDACTED_HEADERS = ['authorization', 'cookie'];
+
+export const recordDeadLetter = async ({
+  rawBody,
+  headers,
+  eventId,
+  eventType,
+  error,
+}: {
+  rawBody: string;
+  headers: Record<string, string>;
+  eventId: string | null;
+  eventType: string | null;
+  error: unknown;
+}): Promise<string> => {
+  const id = eventId || deadLetters().newId();
+  const now = new Date().toISOString();
+
+  const storedHeaders = Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !REDACTED_HEADERS.includes(name.toLowerCase()))
+  );
+
+  await deadLetters().transact([id], ([existing]) => {
+    const deadLetter: WebhookDeadLetter = {
+      id,
+      eventId,
+      eventType,
+      rawBody,
+      headers: storedHeaders,
+      error: error instanceof Error ? error.message : String(error),
+      errorStack: error instanceof Error ? error.stack || null : null,
+      status: 'pending',
+      failureCount: (existing?.failureCount || 0) + 1,
+      replayCount: existing?.replayCount || 0,
+      lastReplayError: existing?.lastReplayError || null,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+      replayedAt: existing?.replayedAt || null,
+    };
+
+    return { writes: [{ id, data: deadLetter }], result: null };
+  });
+
+  console.log('Webhook stored in dead-letter collection', { deadLetterId: id, eventId, eventType });
+  return id;
+};
+
+export const listDeadLetters = async (status: DeadLetterStatus | null = 'pending', limit: number = 50) =>
+  await deadLetters().query({ where: status ? { status } : {}, orderBy: 'createdAt', direction: 'desc', limit });
+
+export const getDeadLetter = async (id: string) => await deadLetters().get(id);
+
+// Record the outcome of a replay attempt
+export const markDeadLetterReplay = async (id: string, outcome: { success: boolean; error?: string }) => {
+  const deadLetter = await getDeadLetter(id);
+  if (!deadLetter) {
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  await deadLetters().update(id, {
+    status: outcome.success ? 'replayed' : 'replay_failed',
+    replayCount: deadLetter.replayCount + 1,
+    lastReplayError: outcome.success ? null : outcome.error || 'Unknown error',
+    ...(outcome.success && { replayedAt: now }),
+    updatedAt: now,
+  });
+
+  return id;
+};
@@ -0,0 +1,82 @@
+import { getCollection } from '@/lib/document-store';
+
+export type WebhookEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+
+export interface WebhookEventRecord {
+  eventId: string; // x-razorpay-event-id header
+  eventType: string;
+  subscriptionId: string | null;
+  status: WebhookEventStatus;
+  message: string | null; // Outcome message returned for the delivery
+  error: string | null; // Last handler error, if any
+  attempts: number; // Number of deliveries that reached the handlers
+  eventCreatedAt: number | null; // Razorpay event created_at (unix seconds)
+  receivedAt: string; // UTC ISO - first delivery
+  processedAt: string | null; // UTC ISO - when handlers finished
+  updatedAt: string; // UTC ISO
+}
+
+const webhookEvents = () => getCollection<WebhookEventRecord>('webhookEvents');
+
+// A delivery stuck in "processing" longer than this is assumed dead and may be retried
+const PROCESSING_LOCK_MS = 2 * 60 * 1000;
+
+export const getWebhookEvent = async (eventId: string) => await webhookEvents().get(eventId);
+
+// Claim an event before running handlers. Returns claimed: false when the event was
+// already handled successfully or another delivery of it is still in flight.
+export const claimWebhookEvent = async (event: {
+  eventId: string;
+  eventType: string;
+  subscriptionId: string | null;
+  eventCreatedAt: number | null;
+}): Promise<{ claimed: boolean; record: WebhookEventRecord }> => {
+  return webhookEvents().transact<{ claimed: boolean; record: WebhookEventRecord }>([event.eventId], ([existing]) => {
+    const now = new Date().toISOString();
+
+    if (existing) {
+      const isHandled = existing.status === 'processed' || existing.status === 'ignored';
+      const isInFlight = existing.status === 'processing' &&
+        Date.now() - new Date(existing.updatedAt).getTime() < PROCESSING_LOCK_MS;
+
+      if (isHandled || isInFlight) {
+        return { writes: [], result: { claimed: false, record: existing } };
+      }
+    }
+
+    const record: WebhookEventRecord = {
+      eventId: event.eventId,
+      eventType: event.eventType,
+      subscriptionId: event.subscriptionId,
+      status: 'processing',
+      message: null,
+      error: existing?.error || null,
+      attempts: (existing?.attempts || 0) + 1,
+      eventCreatedAt: event.eventCreatedAt,
+      receivedAt: existing?.receivedAt || now,
+      processedAt: null,
+      updatedAt: now,
+    };
+
+    return { writes: [{ id: event.eventId, data: record }], result: { claimed: true, record } };
+  });
+};
+
+// Record the outcome of a claimed event
+export const completeWebhookEvent = async (
+  eventId: string,
+  status: Exclude<WebhookEventStatus, 'processing'>,
+  details: { message?: string; error?: string } = {}
+) => {
+  const now = new Date().toISOString();
+
+  await webhookEvents().update(eventId, {
+    status,
+    message: details.message || null,
+    ...(details.error !== undefined && { error: details.error }),
+    processedAt: status === 'failed' ? null : now,
+    updatedAt: now,
+  });
+
+  console.log('Webhook event ledger updated', { eventId, status });
+};
@@ -0,0 +1,1329 @@
+import { BillingInfo, getTierRepository, PlanHandoverInfo, ProratedUpgradeInfo, StoredTier, TierChangeAudit } from '@/lib/tier-repository';
+import { getPaidUpgradePlan, getSuspendedAccessEnd } from '@/lib/billing-config';
+import { getPlanDetails } from '@/lib/plan-catalog';
+import { claimWebhookEvent, completeWebhookEvent } from '@/lib/webhook-events';
+import { upsertPaymentRecord } from '@/lib/payments';
+import { notifyUser, resolveRecipient } from '@/lib/notifications';
+import { cancelReplacedSubscription, isHandoverAbandoned } from '@/lib/plan-handover';
+import {
+  isSubscriptionEvent,
+  OrderWebhookEvent,
+  PaymentLinkWebhookEvent,
+  PaymentWebhookEvent,
+  RazorpayEventType,
+  RazorpayNotes,
+  RazorpayPaymentEntity,
+  RazorpayPaymentLinkEntity,
+  RazorpaySubscriptionEntity,
+  RazorpayWebhookEvent,
+  SubscriptionEventType,
+  SubscriptionWebhookEvent,
+} from '@/lib/razorpay-events';
+
+interface WebhookEventContext {
+  eventId: string | null;
+  eventType: RazorpayEventType;
+  createdAt: number; // Razorpay event created_at (unix seconds)
+  repair?: boolean; // Live state applied by reconciliation - not ordered against webhook events
+}
+
+// Lifecycle order used to break ties between events created in the same second
+const EVENT_LIFECYCLE_RANK: Partial<Record<RazorpayEventType, number>> = {
+  'subscription.authenticated': 1,
+  'subscription.activated': 2,
+  'subscription.charged': 3,
+  'subscription.updated': 3,
+  'subscription.resumed': 3,
+  'subscription.pending': 3,
+  'subscription.halted': 4,
+  'subscription.paused': 4,
+  'subscription.cancelled': 5,
+  'subscription.completed': 5,
+};
+
+type ProcessResult = { status: 'processed' | 'ignored'; message: string };
+
+export interface WebhookRunResult {
+  status: 'processed' | 'ignored' | 'duplicate';
+  message: string;
+}
+
+// Run a verified, validated event through the ledger and handlers. Shared by the webhook
+// route and dead-letter replay. Throws when a handler fails so the caller can dead-letter it.
+export const runWebhookEvent = async (
+  webhookData: RazorpayWebhookEvent,
+  eventId: string | null
+): Promise<WebhookRunResult> => {
+  const eventType = webhookData.event;
+  const subscriptionId = isSubscriptionEvent(webhookData) ? webhookData.payload.subscription.entity.id : null;
+
+  // Without an event id we cannot deduplicate - process the delivery as-is
+  if (!eventId) {
+    console.warn('Webhook delivery missing x-razorpay-event-id header', { eventType, subscriptionId });
+    return await processWebhookEvent(webhookData, null);
+  }
+
+  const { claimed, record } = await claimWebhookEvent({
+    eventId,
+    eventType,
+    subscriptionId,
+    eventCreatedAt: webhookData.created_at,
+  });
+
+  if (!claimed) {
+    console.log('Duplicate webhook delivery acknowledged without processing', {
+      eventId,
+      eventType,
+      subscriptionId,
+      ledgerStatus: record.status,
+      attempts: record.attempts
+    });
+    return {
+      status: 'duplicate',
+      message: record.status === 'processing' ? 'Event is already being processed' : 'Event already processed'
+    };
+  }
+
+  try {
+    const result = await processWebhookEvent(webhookData, eventId);
+    await completeWebhookEvent(eventId, result.status, { message: result.message });
+    return result;
+  } catch (error) {
+    await completeWebhookEvent(eventId, 'failed', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }).catch((ledgerError) => {
+      console.error('Failed to record webhook failure in ledger', { eventId, ledgerError });
+    });
+    throw error;
+  }
+};
+
+// Apply a subscription's live state, fetched from the API, as if its webhook had just arrived.
+// Reconciliation repairs missed deliveries through the same handlers. The event ledger is skipped -
+// the synthetic event id only shows up in the tier history. The repair never moves lastEventAt:
+// stamping it with the fetch time would make every real webhook still in flight look stale.
+export const applySubscriptionState = async (
+  subscription: RazorpaySubscriptionEntity,
+  eventType: SubscriptionEventType,
+  eventId: string
+): Promise<WebhookRunResult> => {
+  const createdAt = Math.floor(Date.now() / 1000);
+  const webhookData: SubscriptionWebhookEvent = {
+    entity: 'event',
+    account_id: '',
+    event: eventType,
+    contains: ['subscription'],
+    payload: { subscription: { entity: subscription } },
+    created_at: createdAt,
+  };
+
+  return await processSubscriptionEvent(webhookData, { eventId, eventType, createdAt, repair: true });
+};
+
+// Route a validated event to its handlers. Returns "ignored" when the event carries nothing to apply.
+const processWebhookEvent = async (
+  webhookData: RazorpayWebhookEvent,
+  eventId: string | null
+): Promise<ProcessResult> => {
+  const event: WebhookEventContext = {
+    eventId,
+    eventType: webhookData.event,
+    createdAt: webhookData.created_at,
+  };
+
+  switch (webhookData.event) {
+    case 'payment.authorized':
+    case 'payment.captured':
+    case 'payment.failed':
+      return await processPaymentEvent(webhookData, event);
+
+    case 'payment_link.paid':
+    case 'payment_link.partially_paid':
+    case 'payment_link.expired':
+    case 'payment_link.cancelled':
+      return await processPaymentLinkEvent(webhookData, event);
+
+    case 'order.paid':
+      return await processOrderEvent(webhookData, event);
+  }
+
+  if (isSubscriptionEvent(webhookData)) {
+    return await processSubscriptionEvent(webhookData, event);
+  }
+
+  console.log('Unhandled webhook event', { eventType: webhookData.event });
+  return { status: 'ignored', message: 'Unhandled webhook event' };
+};
+
+// Handle subscription.* events
+const processSubscriptionEvent = async (
+  webhookData: SubscriptionWebhookEvent,
+  event: WebhookEventContext
+): Promise<ProcessResult> => {
+  const { event: eventType, payload } = webhookData;
+  const eventId = event.eventId;
+  const subscription = payload.subscription.entity;
+
+  console.log('Processing Razorpay event', {
+    eventType,
+    subscriptionId: subscription.id,
+    planId: subscription.plan_id,
+    status: subscription.status
+  });
+  console.log("=".repeat(40))
+  console.log("webhook payload:"+eventType)
+  console.log(payload)
+  console.log("=".repeat(40))
+
+  // Extract user ID from subscription notes
+  let userId = subscription.notes?.userId;
+  if (!userId) {
+    console.error('No userId found in subscription notes', { subscriptionId: subscription.id });
+    return { status: 'ignored', message: 'No userId in subscription notes' };
+  }
+  
+  // Remove USER# prefix if it exists in the notes (clean the userId)
+  if (userId.startsWith('USER#')) {
+    userId = userId.replace('USER#', '');
+  }
+  
+  console.log('Cleaned userId for processing', { originalUserId: subscription.notes?.userId, cleanedUserId: userId });
+
+  // Get plan details
+  const planDetails = await getPlanDetails(subscription.plan_id);
+  if (!planDetails) {
+    console.error('Unknown plan ID', { planId: subscription.plan_id });
+    return { status: 'ignored', message: 'Unknown plan ID' };
+  }
+
+  // Razorpay does not guarantee delivery order - never let an older event overwrite newer state
+  const existingTier = await getTierRepository().getUserTier(userId);
+  if (isStaleEvent(existingTier?.billing, event)) {
+    console.warn('Ignoring stale webhook event', {
+      userId,
+      eventId,
+      eventType,
+      subscriptionId: subscription.id,
+      eventCreatedAt: event.createdAt,
+      lastEventAt: existingTier?.billing?.lastEventAt,
+      lastEventType: existingTier?.billing?.lastEventType,
+      lastEventSubscriptionId: existingTier?.billing?.lastEventSubscriptionId
+    });
+    return { status: 'ignored', message: 'Stale event - newer state already applied' };
+  }
+
+  // A UPI plan change runs the old and the new subscription side by side until the new one activates
+  const handover = existingTier?.billing?.pendingHandover || null;
+  const isHandoverSubscription = handover?.newSubscriptionId === subscription.id;
+
+  if (existingTier?.billing?.replacedSubscriptionId === subscription.id) {
+    console.log('Ignoring event for subscription replaced by a plan handover', { userId, eventType, subscriptionId: subscription.id });
+    return { status: 'ignored', message: 'Subscription was replaced by a plan handover' };
+  }
+
+  if (subscription.notes?.replacesSubscriptionId &&
+      subscription.id !== existingTier?.billing?.razorpaySubscriptionId &&
+      !isHandoverSubscription) {
+    console.warn('Ignoring event for subscription outside the current plan handover', {
+      userId,
+      eventType,
+      subscriptionId: subscription.id,
+      pendingHandoverSubscriptionId: handover?.newSubscriptionId
+    });
+    return { status: 'ignored', message: 'Subscription is not part of the current plan handover' };
+  }
+
+  // Once a deferred mandate is authenticated the old subscription is already winding down, so
+  // whatever happens to the new one next (activation, failed first charge, cancellation) applies
+  const isHandoverTakingOver = isHandoverSubscription && (
+    subscription.status === 'active' ||
+    Boolean(handover?.authenticatedAt && subscription.status !== 'created' && subscription.status !== 'authenticated')
+  );
+
+  if (handover && isHandoverSubscription) {
+    if (!isHandoverTakingOver) {
+      return await handlePlanHandoverProgress(userId, subscription, handover, event);
+    }
+    // Retire the old subscription's events before the new one takes over the billing fields
+    await getTierRepository().updateUserTierGeneric(userId, { 'billing.replacedSubscriptionId': handover.previousSubscriptionId });
+  }
+
+  // Handle different subscription events
+  switch (eventType) {
+    case 'subscription.activated':
+      // Subscription activated - send confirmation message (first event when subscription starts)
+      await handleSubscriptionActivated(userId, subscription, planDetails, event, payload.payment?.entity);
+      break;
+      
+    case 'subscription.completed':
+    case 'subscription.charged':
+    case 'subscription.authenticated':
+    case 'subscription.resumed':
+      // Subscription status updated but don't send confirmation message
+      await handleSubscriptionActivatedSilent(userId, subscription, planDetails, event, payload.payment?.entity);
+      break;
+      
+    case 'subscription.cancelled':
+      // Subscription cancelled
+      await handleSubscriptionCancelled(userId, subscription, event);
+      break;
+      
+    case 'subscription.updated':
+      // Subscription updated (plan change, etc.)
+      await handleSubscriptionUpdated(userId, subscription, planDetails, event);
+      break;
+      
+    case 'subscription.pending':
+      // Payment pending - Razorpay is retrying the charge, don't change user tier yet
+      await handleSubscriptionPending(userId, subscription, event);
+      break;
+
+    case 'subscription.halted':
+    case 'subscription.paused':
+      // Charging stopped - access continues only for the configured grace period
+      await handleSubscriptionSuspended(userId, subscription, planDetails, event);
+      break;
+      
+    default: {
+      // Every subscription event is handled above - a new one must be added here
+      const unhandledEventType: never = eventType;
+      console.log('Unhandled webhook event', { eventType: unhandledEventType });
+      return { status: 'ignored', message: 'Unhandled webhook event' };
+    }
+  }
+
+  if (handover && isHandoverSubscription) {
+    await completePlanHandover(userId, subscription, handover, existingTier, event);
+  }
+
+  // subscription.charged carries the renewal payment - keep the payment history complete
+  const chargedPayment = payload.payment?.entity;
+  if (eventType === 'subscription.charged' && chargedPayment?.id) {
+    await handlePayment(userId, chargedPayment, subscription.id);
+
+    // The first charge is covered by the activation message
+    if (chargedPayment.status === 'captured' && (subscription.paid_count || 0) > 1) {
+      await handleSubscriptionRenewed(userId, subscription, chargedPayment, planDetails);
+    }
+  }
+
+  return { status: 'processed', message: 'Webhook processed successfully' };
+};
+
+// Handle payment.* events, which carry no subscription entity
+const processPaymentEvent = async (
+  webhookData: PaymentWebhookEvent,
+  event: WebhookEventContext
+): Promise<ProcessResult> => {
+  const payment = webhookData.payload.payment.entity;
+
+  console.log('Processing Razorpay payment event', {
+    eventType: event.eventType,
+    paymentId: payment.id,
+    status: payment.status,
+    method: payment.method,
+    amount: payment.amount
+  });
+
+  const userId = await resolvePaymentUserId(payment);
+  if (!userId) {
+    console.error('No user found for payment', {
+      paymentId: payment.id,
+      customerId: payment.customer_id,
+      orderId: payment.order_id
+    });
+    return { status: 'ignored', message: 'No user found for payment' };
+  }
+
+  await handlePayment(userId, payment, null);
+
+  // A prorated upgrade paid through Checkout completes on the captured payment of its order
+  const trackedUpgrade = payment.order_id && payment.status === 'captured'
+    ? (await getTierRepository().getUserTier(userId))?.billing?.pendingUpgrade
+    : null;
+  if (trackedUpgrade && trackedUpgrade.orderId === payment.order_id) {
+    await handleProratedUpgradePaid(userId, {
+      orderId: payment.order_id,
+      paymentLinkId: null,
+      amountPaid: payment.amount,
+      notes: payment.notes,
+    }, undefined, event);
+  }
+
+  return { status: 'processed', message: 'Webhook processed successfully' };
+};
+
+// Handle order.paid for prorated upgrade orders created by create-upgrade-order and paid through Checkout
+const processOrderEvent = async (
+  webhookData: OrderWebhookEvent,
+  event: WebhookEventContext
+): Promise<ProcessResult> => {
+  const order = webhookData.payload.order.entity;
+
+  if (order.notes.type !== 'prorated_upgrade') {
+    console.log('Ignoring order not created for a prorated upgrade', { orderId: order.id });
+    return { status: 'ignored', message: 'Not a prorated upgrade order' };
+  }
+
+  let userId = order.notes.userId || order.notes.username;
+  if (!userId) {
+    console.error('No userId found in order notes', { orderId: order.id });
+    return { status: 'ignored', message: 'No userId in order notes' };
+  }
+  if (userId.startsWith('USER#')) {
+    userId = userId.replace('USER#', '');
+  }
+
+  // Orders only finalize the upgrade they were quoted for - a link-paid upgrade is handled by payment_link.paid
+  const trackedUpgrade = (await getTierRepository().getUserTier(userId))?.billing?.pendingUpgrade;
+  if (trackedUpgrade?.orderId !== order.id) {
+    console.log('Paid order does not match the tracked prorated upgrade', {
+      userId,
+      orderId: order.id,
+      trackedOrderId: trackedUpgrade?.orderId,
+      eventType: event.eventType
+    });
+    return { status: 'ignored', message: 'Order is not the tracked prorated upgrade' };
+  }
+
+  const payment = webhookData.payload.payment?.entity;
+  await handleProratedUpgradePaid(userId, {
+    orderId: order.id,
+    paymentLinkId: null,
+    amountPaid: order.amount_paid ?? payment?.amount ?? 0,
+    notes: order.notes,
+  }, payment, event);
+
+  return { status: 'processed', message: 'Webhook processed successfully' };
+};
+
+// Handle payment_link.* events for prorated upgrade links created by create-payment-link
+const processPaymentLinkEvent = async (
+  webhookData: PaymentLinkWebhookEvent,
+  event: WebhookEventContext
+): Promise<ProcessResult> => {
+  const paymentLink = webhookData.payload.payment_link.entity;
+
+  if (paymentLink.notes.type !== 'prorated_upgrade') {
+    console.log('Ignoring payment link not created for a prorated upgrade', { paymentLinkId: paymentLink.id });
+    return { status: 'ignored', message: 'Not a prorated upgrade payment link' };
+  }
+
+  let userId = paymentLink.notes.username || paymentLink.notes.userId;
+  if (!userId) {
+    console.error('No username found in payment link notes', { paymentLinkId: paymentLink.id });
+    return { status: 'ignored', message: 'No username in payment link notes' };
+  }
+  if (userId.startsWith('USER#')) {
+    userId = userId.replace('USER#', '');
+  }
+
+  console.log('Processing Razorpay payment link event', {
+    eventType: event.eventType,
+    userId,
+    paymentLinkId: paymentLink.id,
+    orderId: paymentLink.notes.orderId,
+    status: paymentLink.status,
+    amountPaid: paymentLink.amount_paid
+  });
+
+  switch (event.eventType) {
+    case 'payment_link.paid':
+      await handleProratedUpgradePaid(userId, {
+        orderId: paymentLink.notes?.orderId || null,
+        paymentLinkId: paymentLink.id,
+        amountPaid: paymentLink.amount_paid || paymentLink.amount,
+        notes: paymentLink.notes,
+      }, webhookData.payload.payment?.entity, event);
+      break;
+
+    case 'payment_link.expired':
+    case 'payment_link.cancelled':
+      await handleProratedUpgradeAbandoned(userId, paymentLink, event.eventType === 'payment_link.expired' ? 'expired' : 'cancelled');
+      break;
+
+    default:
+      console.log('Unhandled webhook event', { eventType: event.eventType });
+      return { status: 'ignored', message: 'Unhandled webhook event' };
+  }
+
+  return { status: 'processed', message: 'Webhook processed successfully' };
+};
+
+// Where a prorated payment came from - a payment link, or an order paid through Checkout
+interface ProratedPaymentSource {
+  orderId: string | null; // Order quoted by create-upgrade-order
+  paymentLinkId: string | null;
+  amountPaid: number; // in paise
+  notes: RazorpayNotes;
+}
+
+// The tracked upgrade a payment settles, or null when it belongs to another (or no) upgrade
+const findTrackedUpgrade = (
+  trackedUpgrade: ProratedUpgradeInfo | null | undefined,
+  source: ProratedPaymentSource
+): ProratedUpgradeInfo | null => trackedUpgrade &&
+  ((source.paymentLinkId && trackedUpgrade.paymentLinkId === source.paymentLinkId) ||
+    (source.orderId && trackedUpgrade.orderId === source.orderId))
+  ? trackedUpgrade
+  : null;
+
+// Prorated amount paid - record the payment and grant the target tier
+const handleProratedUpgradePaid = async (
+  userId: string,
+  source: ProratedPaymentSource,
+  payment: RazorpayPaymentEntity | undefined,
+  event: WebhookEventContext
+) => {
+  if (payment?.id) {
+    await handlePayment(userId, payment, null);
+  }
+
+  // Decided on the latest tier, so two deliveries of the same payment cannot both grant it
+  const result = await getTierRepository().mutateTier(userId, (existingTier) => {
+    const now = new Date().toISOString();
+    const trackedUpgrade = findTrackedUpgrade(existingTier.billing?.pendingUpgrade, source);
+
+    // Never grant the tier twice, or for less than the quoted amount
+    if (trackedUpgrade && (trackedUpgrade.status === 'paid' || source.amountPaid < trackedUpgrade.amount)) {
+      return null;
+    }
+
+    const targetTier = trackedUpgrade?.targetTier ||
+      (source.notes?.targetTier as ProratedUpgradeInfo['targetTier']) || null;
+    const targetRenewalPeriod = trackedUpgrade?.targetRenewalPeriod ||
+      (source.notes?.targetRenewalPeriod as ProratedUpgradeInfo['targetRenewalPeriod']) || null;
+
+    const finalizedUpgrade: ProratedUpgradeInfo = {
+      orderId: source.orderId || existingTier.billing?.pendingUpgrade?.orderId || '',
+      paymentLinkId: source.paymentLinkId || trackedUpgrade?.paymentLinkId || null,
+      amount: source.amountPaid,
+      status: 'paid',
+      targetTier,
+      targetRenewalPeriod,
+      previousTier: existingTier.tier,
+      paymentId: payment?.id || trackedUpgrade?.paymentId || null,
+      // The old subscription keeps charging its plan until the new mandate replaces it - its
+      // events must not take back what was paid for (see getPaidUpgradePlan)
+      subscriptionId: trackedUpgrade?.subscriptionId || existingTier.billing?.razorpaySubscriptionId || null,
+      paidThrough: existingTier.billing?.subscriptionEndDate || null,
+      createdAt: trackedUpgrade?.createdAt || now,
+      resolvedAt: now,
+    };
+
+    const updates: Record<string, any> = { 'billing.pendingUpgrade': finalizedUpgrade };
+    if (targetTier) {
+      updates.tier = targetTier;
+    }
+    if (targetRenewalPeriod) {
+      updates['billing.renewalPeriod'] = targetRenewalPeriod;
+    }
+
+    return {
+      updates,
+      audit: {
+        trigger: 'webhook',
+        reason: 'prorated_upgrade_paid',
+        eventId: event.eventId,
+        amount: source.amountPaid,
+        currency: payment?.currency || 'INR',
+        paymentId: finalizedUpgrade.paymentId,
+        orderId: finalizedUpgrade.orderId || null,
+        note: `Paid through ${source.paymentLinkId ? 'payment link' : 'checkout'} (${event.eventType})`,
+      },
+    };
+  });
+
+  if (!result) {
+    console.error('No tier found for user who paid a prorated upgrade', { userId, ...source });
+    return;
+  }
+
+  const trackedUpgrade = findTrackedUpgrade(result.before.billing?.pendingUpgrade, source);
+  if (!trackedUpgrade) {
+    // Still recorded - the link notes are the source of truth for what was bought
+    console.warn('Paid prorated upgrade does not match the tracked one', {
+      userId,
+      orderId: source.orderId,
+      paymentLinkId: source.paymentLinkId,
+      trackedPaymentLinkId: result.before.billing?.pendingUpgrade?.paymentLinkId,
+      trackedOrderId: result.before.billing?.pendingUpgrade?.orderId
+    });
+  } else if (!result.applied && trackedUpgrade.status === 'paid') {
+    console.log('Prorated upgrade already finalized', { userId, orderId: source.orderId, paymentLinkId: source.paymentLinkId });
+    return;
+  } else if (!result.applied) {
+    console.error('Prorated upgrade paid less than quoted - tier not granted', {
+      userId,
+      orderId: source.orderId,
+      amountPaid: source.amountPaid,
+      quotedAmount: trackedUpgrade.amount
+    });
+    return;
+  }
+
+  console.log('Prorated upgrade finalized', {
+    userId,
+    orderId: source.orderId,
+    paymentLinkId: source.paymentLinkId,
+    fromTier: result.before.tier,
+    toTier: result.after.tier
+  });
+};
+
+// Prorated payment link expired or was cancelled - the tier was never granted, so only close the upgrade
+const handleProratedUpgradeAbandoned = async (
+  userId: string,
+  paymentLink: RazorpayPaymentLinkEntity,
+  status: "expired" | "cancelled"
+) => {
+  // A payment that completes meanwhile wins - only a still-open upgrade is closed
+  const result = await getTierRepository().mutateTier(userId, (existingTier) => {
+    const trackedUpgrade = existingTier.billing?.pendingUpgrade;
+    if (!trackedUpgrade || trackedUpgrade.paymentLinkId !== paymentLink.id || trackedUpgrade.status === 'paid') {
+      return null;
+    }
+
+    return {
+      updates: {
+        'billing.pendingUpgrade': {
+          ...trackedUpgrade,
+          status,
+          resolvedAt: new Date().toISOString(),
+        },
+      },
+    };
+  });
+
+  const trackedUpgrade = result?.before.billing?.pendingUpgrade;
+  if (!result || !trackedUpgrade || trackedUpgrade.paymentLinkId !== paymentLink.id) {
+    console.log('No tracked prorated upgrade for payment link', { userId, paymentLinkId: paymentLink.id, status });
+    return;
+  }
+
+  if (!result.applied) {
+    console.warn('Ignoring payment link closure for an already paid upgrade', { userId, paymentLinkId: paymentLink.id, status });
+    return;
+  }
+
+  console.log('Prorated upgrade rolled back', { userId, paymentLinkId: paymentLink.id, status, tier: result.before.tier });
+};
+
+// Payments carry the user in their notes (checkout / payment links) or can be matched by Razorpay customer
+// (recurring charges) or by a quoted upgrade order
+const resolvePaymentUserId = async (payment: RazorpayPaymentEntity): Promise<string | null> => {
+  const notedUserId = payment.notes.userId || payment.notes.username;
+  if (notedUserId) {
+    return notedUserId.startsWith('USER#') ? notedUserId.replace('USER#', '') : notedUserId;
+  }
+
+  if (payment.customer_id) {
+    const tier = await getTierRepository().getUserTierByCustomerId(payment.customer_id);
+    return tier?.userId || null;
+  }
+
+  // Checkout payments for a prorated upgrade only carry the order
+  if (payment.order_id) {
+    const tier = await getTierRepository().getUserTierByUpgradeOrderId(payment.order_id);
+    return tier?.userId || null;
+  }
+
+  return null;
+};
+
+// Record a payment and reflect its outcome on the user's billing record
+const handlePayment = async (
+  userId: string,
+  payment: RazorpayPaymentEntity,
+  subscriptionId: string | null
+) => {
+  const paymentCreatedAt = new Date(payment.created_at * 1000).toISOString();
+
+  await upsertPaymentRecord({
+    userId,
+    paymentId: payment.id,
+    amount: payment.amount,
+    currency: payment.currency,
+    status: payment.status,
+    method: payment.method || null,
+    orderId: payment.order_id || null,
+    invoiceId: payment.invoice_id || null,
+    subscriptionId,
+    errorCode: payment.error_code || null,
+    errorDescription: payment.error_description || null,
+    errorReason: payment.error_reason || null,
+    paymentCreatedAt,
+  });
+
+  // An older payment must not overwrite the outcome of a newer one
+  const isOlderPayment = (billing: BillingInfo | undefined) => Boolean(
+    billing?.lastPaymentAt && paymentCreatedAt < billing.lastPaymentAt && billing.lastPaymentId !== payment.id
+  );
+
+  // The failure count is incremented from the latest tier, so concurrent payment events all count
+  const result = await getTierRepository().mutateTier(userId, (existingTier) => {
+    if (isOlderPayment(existingTier.billing)) {
+      return null;
+    }
+
+    const paymentUpdates: Record<string, any> = {
+      'billing.lastPaymentId': payment.id,
+      'billing.lastPaymentStatus': payment.status,
+      'billing.lastPaymentAt': paymentCreatedAt,
+    };
+
+    // Keep the latest contact details so notifications can reach the customer
+    if (payment.email) {
+      paymentUpdates['billing.contactEmail'] = payment.email;
+    }
+    if (payment.contact) {
+      paymentUpdates['billing.contactPhone'] = payment.contact.replace(/\D/g, '');
+    }
+
+    if (payment.status === 'failed') {
+      paymentUpdates['billing.lastPaymentFailure'] = {
+        paymentId: payment.id,
+        amount: payment.amount,
+        errorCode: payment.error_code || null,
+        errorDescription: payment.error_description || null,
+        failedAt: paymentCreatedAt,
+        isRenewal: Boolean(payment.invoice_id && existingTier.billing?.razorpaySubscriptionId),
+      };
+      paymentUpdates['billing.failedPaymentCount'] = (existingTier.billing?.failedPaymentCount || 0) + 1;
+    } else if (payment.method) {
+      // Use the method actually used for the payment
+      paymentUpdates['billing.paymentMethod'] = payment.method;
+    }
+
+    if (payment.status === 'captured') {
+      paymentUpdates['billing.lastPaymentFailure'] = null;
+      paymentUpdates['billing.failedPaymentCount'] = 0;
+    }
+
+    return { updates: paymentUpdates };
+  });
+
+  if (!result) {
+    console.log('Payment recorded for user without tier document', { userId, paymentId: payment.id });
+    return;
+  }
+
+  if (!result.applied) {
+    console.log('Payment is older than the latest recorded payment - billing left unchanged', {
+      userId,
+      paymentId: payment.id,
+      paymentCreatedAt,
+      lastPaymentAt: result.before.billing?.lastPaymentAt
+    });
+    return;
+  }
+
+  console.log('Billing updated from payment', { userId, paymentId: payment.id, status: payment.status });
+
+  if (payment.status === 'failed') {
+    const updatedTier = result.after;
+    console.warn('Payment failed', {
+      userId,
+      paymentId: payment.id,
+      errorCode: payment.error_code,
+      errorDescription: payment.error_description,
+      isRenewal: updatedTier.billing?.lastPaymentFailure?.isRenewal
+    });
+
+    await notifyUser(userId, 'payment_failed', {
+      dedupeKey: payment.id,
+      data: {
+        tier: updatedTier.tier,
+        renewalPeriod: updatedTier.billing?.renewalPeriod,
+        amount: payment.amount,
+        currency: payment.currency,
+        failureReason: payment.error_description || null,
+      },
+      recipient: resolveRecipient(userId, updatedTier.billing),
+    });
+  }
+};
+
+// An event is stale when it was created before the last applied event, or in the same
+// second but earlier in the subscription lifecycle (e.g. activated after cancelled). A repair
+// carries state fetched just now, so it is never stale.
+const isStaleEvent = (billing: BillingInfo | undefined, event: WebhookEventContext): boolean => {
+  if (event.repair || !billing?.lastEventAt || !event.createdAt) {
+    return false;
+  }
+
+  if (event.createdAt !== billing.lastEventAt) {
+    return event.createdAt < billing.lastEventAt;
+  }
+
+  const incomingRank = EVENT_LIFECYCLE_RANK[event.eventType] || 0;
+  const appliedRank = EVENT_LIFECYCLE_RANK[billing.lastEventType as RazorpayEventType] || 0;
+  return incomingRank < appliedRank;
+};
+
+// Ordering fields written with every state change applied from a webhook - a repair keeps the
+// ones from the last real event
+const eventOrderingFields = (
+  subscriptionId: string,
+  event: WebhookEventContext,
+  billing?: BillingInfo
+): Partial<BillingInfo> => event.repair ? {
+  lastEventAt: billing?.lastEventAt,
+  lastEventType: billing?.lastEventType,
+  lastEventSubscriptionId: billing?.lastEventSubscriptionId,
+} : {
+  lastEventAt: event.createdAt,
+  lastEventType: event.eventType,
+  lastEventSubscriptionId: subscriptionId,
+};
+
+// History attribution for changes applied from a webhook - a captured payment explains the charge
+const webhookAudit = (event: WebhookEventContext, payment?: RazorpayPaymentEntity): TierChangeAudit => ({
+  trigger: 'webhook',
+  reason: event.eventType,
+  eventId: event.eventId,
+  ...(payment?.status === 'captured' && {
+    amount: payment.amount,
+    currency: payment.currency,
+    paymentId: payment.id,
+    orderId: payment.order_id || null,
+  }),
+});
+
+// Handle subscription activation/payment success with confirmation message
+const handleSubscriptionActivated = async (
+  userId: string, 
+  subscription: RazorpaySubscriptionEntity, 
+  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" },
+  event: WebhookEventContext,
+  payment?: RazorpayPaymentEntity
+) => {
+  // Update subscription status while preserving confirmation flag
+  const result = await updateSubscriptionStatus(userId, subscription, planDetails, event, payment);
+  if (!result?.applied) {
+    return;
+  }
+
+  // Check the flag as it was BEFORE this update
+  const isConfirmationAlreadySent = result.before.billing?.isConfirmationSent === true;
+  console.log('Subscription activation check', {
+    userId,
+    subscriptionId: subscription.id,
+    isConfirmationAlreadySent
+  });
+
+  // Send confirmation message only if not already sent - the flag flips when a channel confirms delivery
+  if (!isConfirmationAlreadySent) {
+    const updatedTier = result.after;
+    const sent = await notifyUser(userId, 'activation', {
+      dedupeKey: subscription.id,
+      data: {
+        tier: planDetails.tier,
+        renewalPeriod: planDetails.renewalPeriod,
+        periodEnd: updatedTier.billing?.subscriptionEndDate,
+      },
+      recipient: resolveRecipient(userId, updatedTier.billing),
+      marksConfirmationSent: true,
+    });
+
+    console.log(sent ? 'Subscription confirmation message sent' : 'Subscription confirmation message queued for retry', {
+      userId,
+      tier: planDetails.tier
+    });
+  } else {
+    console.log('Confirmation message already sent, skipping duplicate', { userId, tier: planDetails.tier });
+  }
+
+  console.log('User subscription activated successfully', { userId, tier: planDetails.tier });
+};
+
+// Handle subscription updates without sending confirmation message
+const handleSubscriptionActivatedSilent = async (
+  userId: string, 
+  subscription: RazorpaySubscriptionEntity, 
+  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" },
+  event: WebhookEventContext,
+  payment?: RazorpayPaymentEntity
+) => {
+  await updateSubscriptionStatus(userId, subscription, planDetails, event, payment);
+  console.log('User subscription status updated silently', { userId, tier: planDetails.tier, subscriptionId: subscription.id });
+};
+
+// Handle a recurring charge on an already running subscription
+const handleSubscriptionRenewed = async (
+  userId: string,
+  subscription: RazorpaySubscriptionEntity,
+  payment: RazorpayPaymentEntity,
+  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" }
+) => {
+  const existingTier = await getTierRepository().getUserTier(userId);
+
+  await notifyUser(userId, 'renewal', {
+    dedupeKey: payment.id,
+    data: {
+      tier: planDetails.tier,
+      renewalPeriod: planDetails.renewalPeriod,
+      amount: payment.amount,
+      currency: payment.currency,
+      periodEnd: existingTier?.billing?.subscriptionEndDate,
+    },
+    recipient: resolveRecipient(userId, existingTier?.billing),
+  });
+
+  console.log('Subscription renewal processed', { userId, subscriptionId: subscription.id, paymentId: payment.id });
+};
+
+// Events for a handover subscription that has not activated yet leave the current subscription alone
+const handlePlanHandoverProgress = async (
+  userId: string,
+  subscription: RazorpaySubscriptionEntity,
+  handover: PlanHandoverInfo,
+  event: WebhookEventContext
+): Promise<ProcessResult> => {
+  // Deferred handover (prorated upgrade already paid): the mandate is approved, so the old subscription
+  // stops at its cycle end, exactly when the new one starts charging
+  if (subscription.status === 'authenticated' && handover.startAt) {
+    const now = new Date().toISOString();
+    if (!handover.authenticatedAt) {
+      await getTierRepository().updateUserTierGeneric(userId, {
+        'billing.replacedSubscriptionId': handover.previousSubscriptionId,
+        'billing.pendingHandover.authenticatedAt': now,
+      });
+    }
+    if (!handover.previousCancelScheduledAt) {
+      await cancelReplacedSubscription(handover.previousSubscriptionId, { atCycleEnd: true });
+      await getTierRepository().updateUserTierGeneric(userId, { 'billing.pendingHandover.previousCancelScheduledAt': now });
+    }
+
+    console.log('Deferred plan handover authenticated', {
+      userId,
+      subscriptionId: subscription.id,
+      startAt: handover.startAt,
+      previousSubscriptionId: handover.previousSubscriptionId
+    });
+    return { status: 'processed', message: 'Deferred plan handover authenticated' };
+  }
+
+  if (isHandoverAbandoned(subscription.status)) {
+    await getTierRepository().updateUserTierGeneric(userId, { 'billing.pendingHandover': null });
+    console.log('Plan handover abandoned - keeping the current subscription', {
+      userId,
+      eventType: event.eventType,
+      subscriptionId: subscription.id,
+      status: subscription.status,
+      previousSubscriptionId: handover.previousSubscriptionId
+    });
+    return { status: 'processed', message: 'Plan handover abandoned' };
+  }
+
+  console.log('Plan handover waiting for activation', {
+    userId,
+    eventType: event.eventType,
+    subscriptionId: subscription.id,
+    status: subscription.status
+  });
+  return { status: 'ignored', message: 'Plan handover waiting for activation' };
+};
+
+// The new subscription took over - cancel the one it replaces, then close the handover.
+// The handover stays recorded until the cancel succeeds, so a webhook retry finishes the job.
+const completePlanHandover = async (
+  userId: string,
+  subscription: RazorpaySubscriptionEntity,
+  handover: PlanHandoverInfo,
+  previousTier: StoredTier | null,
+  event: WebhookEventContext
+) => {
+  await cancelReplacedSubscription(handover.previousSubscriptionId);
+  await getTierRepository().updateUserTierGeneric(userId, { 'billing.pendingHandover': null });
+
+  const updatedTier = await getTierRepository().getUserTier(userId);
+  await notifyUser(userId, 'plan_change', {
+    dedupeKey: `${subscription.id}-handover`,
+    data: {
+      tier: handover.targetTier,
+      renewalPeriod: handover.targetRenewalPeriod,
+      previousTier: previousTier?.tier,
+      previousRenewalPeriod: previousTier?.billing?.renewalPeriod,
+      periodEnd: updatedTier?.billing?.subscriptionEndDate,
+    },
+    recipient: resolveRecipient(userId, updatedTier?.billing),
+  });
+
+  console.log('Plan handover completed', {
+    userId,
+    eventType: event.eventType,
+    newSubscriptionId: subscription.id,
+    previousSubscriptionId: handover.previousSubscriptionId
+  });
+};
+
+// Common subscription status update logic. The billing is merged onto the tier read inside the
+// transaction, and an event that went stale in the meantime leaves it untouched.
+const updateSubscriptionStatus = async (
+  userId: string, 
+  subscription: RazorpaySubscriptionEntity, 
+  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" },
+  event: WebhookEventContext,
+  payment?: RazorpayPaymentEntity
+) => {
+  const result = await getTierRepository().mutateTier(userId, (existingTier) => {
+    if (isStaleEvent(existingTier.billing, event)) {
+      return null;
+    }
+
+    const existingBilling = existingTier.billing || {};
+    const isStatusChange = existingTier.billing?.status !== subscription.status;
+    const plan = getPaidUpgradePlan(existingTier.billing, subscription) || planDetails;
+
+    // Define the updates for this webhook event
+    const billingUpdates: Partial<BillingInfo> = {
+      renewalPeriod: plan.renewalPeriod,
+      // current_start/current_end stay null until the first charge (e.g. subscription.authenticated)
+      subscriptionStartDate: subscription.current_start
+        ? new Date(subscription.current_start * 1000).toISOString()
+        : existingTier.billing?.subscriptionStartDate || null,
+      subscriptionEndDate: subscription.current_end
+        ? new Date(subscription.current_end * 1000).toISOString()
+        : existingTier.billing?.subscriptionEndDate || null,
+      razorpaySubscriptionId: subscription.id,
+      razorpayPlanId: subscription.plan_id,
+      razorpayCustomerId: subscription.customer_id || existingTier.billing?.razorpayCustomerId,
+      // Subscription entities often omit the method - keep the one learned from payments
+      paymentMethod: subscription.payment_method || existingTier.billing?.paymentMethod,
+      // Keep the trial dates as history - a trial can only be used once
+      trialStartDate: existingTier.billing?.trialStartDate || null,
+      trialEndDate: existingTier.billing?.trialEndDate || null,
+      // Clear cancellation fields since user is resubscribing
+      isCancelled: false,
+      cancellationDate: null,
+      // Back to normal charging - clear any halted/paused grace window
+      status: subscription.status,
+      statusChangedAt: isStatusChange ? new Date().toISOString() : existingTier.billing?.statusChangedAt || null,
+      accessEndsAt: null,
+      ...eventOrderingFields(subscription.id, event, existingTier.billing)
+    };
+
+    // A scheduled change is done once the subscription carries its plan, or gone once Razorpay
+    // no longer has anything scheduled (cancelled from the dashboard or superseded)
+    const pendingChange = existingTier.billing?.pendingChange;
+    if (pendingChange && (subscription.plan_id === pendingChange.targetPlanId || subscription.has_scheduled_changes === false)) {
+      billingUpdates.pendingChange = null;
+    }
+
+    // The mandate set up for this subscription went through - setup-new-subscription may create another
+    if (existingTier.billing?.pendingMandate?.subscriptionId === subscription.id) {
+      billingUpdates.pendingMandate = null;
+    }
+
+    // A paid subscription replacing a running (or lapsed) trial converts it
+    const trialStatus = existingTier.billing?.trialStatus;
+    if (trialStatus === 'active' || trialStatus === 'expired') {
+      billingUpdates.trialStatus = 'converted';
+      billingUpdates.trialConvertedAt = new Date().toISOString();
+    }
+
+    // Merge existing billing with updates
+    const billing: BillingInfo = {
+      ...existingBilling,
+      ...billingUpdates
+    } as BillingInfo;
+
+    return { updates: { tier: plan.tier, billing }, audit: webhookAudit(event, payment) };
+  });
+
+  if (!result) {
+    console.error('No user tier found for userId:', userId);
+    return null;
+  }
+  if (!result.applied) {
+    console.warn('Ignoring webhook event that went stale while it was applied', {
+      userId,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      lastEventAt: result.before.billing?.lastEventAt,
+      lastEventType: result.before.billing?.lastEventType
+    });
+    return result;
+  }
+
+  console.log('Updated subscription status', {
+    userId,
+    tier: result.after.tier,
+    renewalPeriod: result.after.billing?.renewalPeriod,
+    subscriptionId: subscription.id,
+    startDate: result.after.billing?.subscriptionStartDate,
+    endDate: result.after.billing?.subscriptionEndDate,
+    paymentMethod: subscription.payment_method
+  });
+
+  const pendingChange = result.before.billing?.pendingChange;
+  if (pendingChange && !result.after.billing?.pendingChange) {
+    const isApplied = subscription.plan_id === pendingChange.targetPlanId;
+    console.log(isApplied ? 'Scheduled plan change took effect' : 'Scheduled plan change no longer pending', {
+      userId,
+      subscriptionId: subscription.id,
+      targetPlanId: pendingChange.targetPlanId
+    });
+  }
+  if (result.before.billing?.trialStatus !== 'converted' && result.after.billing?.trialStatus === 'converted') {
+    console.log('Trial converted to paid subscription', { userId, subscriptionId: subscription.id, tier: result.after.tier });
+  }
+
+  return result;
+};
+
+// Handle subscription cancellation - Simple version
+const handleSubscriptionCancelled = async (userId: string, subscription: RazorpaySubscriptionEntity, event: WebhookEventContext) => {
+  console.log('Processing subscription cancellation', { userId, subscriptionId: subscription.id });
+  
+  // Get existing tier to preserve subscription end date
+  const existingTier = await getTierRepository().getUserTier(userId);
+  if (!existingTier) {
+    console.log('No existing tier found for cancelled subscription - creating user with NONE tier', { userId, subscriptionId: subscription.id });
+    
+    // Create user with NONE tier and cancellation info
+    const billing: BillingInfo = {
+      renewalPeriod: null,
+      subscriptionStartDate: null,
+      subscriptionEndDate: null,
+      razorpaySubscriptionId: null,
+      razorpayPlanId: null,
+      razorpayCustomerId: subscription.customer_id || undefined,
+      paymentMethod: subscription.payment_method || undefined,
+      trialStartDate: null,
+      trialEndDate: null,
+      isConfirmationSent: false,
+      isCancelled: true,
+      cancellationDate: new Date().toISOString(),
+      status: 'cancelled',
+      statusChangedAt: new Date().toISOString(),
+      accessEndsAt: null,
+      ...eventOrderingFields(subscription.id, event),
+    };
+
+    await getTierRepository().updateUserTier(userId, 'NONE', billing, webhookAudit(event));
+    console.log('Created user with NONE tier for cancelled subscription', { userId });
+    return;
+  }
+
+  const currentTimestamp = new Date().toISOString();
+  
+  // Check if subscription has actually ended (immediate) or just cancelled (grace period)
+  const hasEnded = subscription.ended_at && subscription.ended_at <= Math.floor(Date.now() / 1000);
+  
+  const result = await getTierRepository().mutateTier(userId, (existingTier) => {
+    if (isStaleEvent(existingTier.billing, event)) {
+      return null;
+    }
+
+    if (hasEnded) {
+      // Subscription ended - user loses access now
+      const billing: BillingInfo = {
+        renewalPeriod: null,
+        subscriptionStartDate: null,
+        subscriptionEndDate: null,
+        razorpaySubscriptionId: null,
+        razorpayPlanId: null,
+        razorpayCustomerId: existingTier.billing?.razorpayCustomerId,
+        paymentMethod: existingTier.billing?.paymentMethod, // Preserve payment method for historical data
+        trialStartDate: existingTier.billing?.trialStartDate || null,
+        trialEndDate: existingTier.billing?.trialEndDate || null,
+        trialStatus: existingTier.billing?.trialStatus || null,
+        trialConvertedAt: existingTier.billing?.trialConvertedAt || null,
+        isConfirmationSent: false,
+        isCancelled: true,
+        cancellationDate: currentTimestamp,
+        status: 'cancelled',
+        statusChangedAt: currentTimestamp,
+        accessEndsAt: null,
+        ...eventOrderingFields(subscription.id, event, existingTier.billing),
+      };
+
+      return { updates: { tier: 'NONE', billing }, audit: webhookAudit(event) };
+    }
+
+    // Subscription cancelled but still active - keep access until end date
+    const updatedBilling: BillingInfo = {
+      renewalPeriod: existingTier.billing?.renewalPeriod || null,
+      trialStartDate: existingTier.billing?.trialStartDate || null,
+      trialEndDate: existingTier.billing?.trialEndDate || null,
+      trialStatus: existingTier.billing?.trialStatus || null,
+      trialConvertedAt: existingTier.billing?.trialConvertedAt || null,
+      subscriptionStartDate: existingTier.billing?.subscriptionStartDate || null,
+      subscriptionEndDate: existingTier.billing?.subscriptionEndDate || null,
+      razorpayCustomerId: existingTier.billing?.razorpayCustomerId,
+      paymentMethod: existingTier.billing?.paymentMethod,
+      isConfirmationSent: existingTier.billing?.isConfirmationSent,
+      isCancelled: true,
+      cancellationDate: currentTimestamp,
+      razorpaySubscriptionId: existingTier.billing?.razorpaySubscriptionId, // Keep for grace period
+      razorpayPlanId: existingTier.billing?.razorpayPlanId,
+      status: 'cancelled',
+      statusChangedAt: currentTimestamp,
+      accessEndsAt: null,
+      ...eventOrderingFields(subscription.id, event, existingTier.billing),
+    };
+
+    // Keep current tier until subscription end date
+    return { updates: { tier: existingTier.tier, billing: updatedBilling }, audit: webhookAudit(event) };
+  });
+
+  if (!result?.applied) {
+    console.warn('Subscription cancellation not applied - tier removed or newer event applied meanwhile', {
+      userId,
+      subscriptionId: subscription.id,
+      lastEventAt: result?.before.billing?.lastEventAt
+    });
+    return;
+  }
+
+  const previousTier = result.before;
+  if (hasEnded) {
+    console.log('Subscription ended - removed access', { userId, subscriptionId: subscription.id });
+  } else {
+    console.log('Subscription cancelled - keeping access until billing period ends', { 
+      userId, 
+      subscriptionId: subscription.id,
+      subscriptionEndDate: previousTier.billing?.subscriptionEndDate 
+    });
+  }
+
+  await notifyUser(userId, 'cancellation', {
+    dedupeKey: subscription.id,
+    data: {
+      tier: previousTier.tier,
+      renewalPeriod: previousTier.billing?.renewalPeriod,
+      periodEnd: hasEnded ? null : previousTier.billing?.subscriptionEndDate,
+    },
+    recipient: resolveRecipient(userId, previousTier.billing),
+  });
+
+  console.log('Subscription cancellation processed successfully', { userId });
+};
+
+// Handle subscription updates (plan changes)
+const handleSubscriptionUpdated = async (
+  userId: string, 
+  subscription: RazorpaySubscriptionEntity, 
+  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" },
+  event: WebhookEventContext
+) => {
+  console.log('Updating subscription', {
+    userId,
+    subscriptionId: subscription.id,
+    newTier: planDetails.tier,
+    newRenewalPeriod: planDetails.renewalPeriod
+  });
+
+  const result = await updateSubscriptionStatus(userId, subscription, planDetails, event);
+  if (!result?.applied) {
+    return;
+  }
+
+  // subscription.updated also fires for changes that keep the plan - only announce real plan changes
+  const { before: existingTier, after: updatedTier } = result;
+  const isPlanChange = existingTier.tier !== updatedTier.tier ||
+    existingTier.billing?.renewalPeriod !== updatedTier.billing?.renewalPeriod;
+  if (isPlanChange) {
+    await notifyUser(userId, 'plan_change', {
+      dedupeKey: `${subscription.id}-${subscription.plan_id}-${event.createdAt}`,
+      data: {
+        tier: updatedTier.tier,
+        renewalPeriod: updatedTier.billing?.renewalPeriod,
+        previousTier: existingTier.tier,
+        previousRenewalPeriod: existingTier.billing?.renewalPeriod,
+        periodEnd: subscription.current_end ? new Date(subscription.current_end * 1000).toISOString() : null,
+      },
+      recipient: resolveRecipient(userId, existingTier.billing),
+    });
+  }
+
+  console.log('User subscription updated successfully', { userId, newTier: updatedTier.tier });
+};
+// Handle pending subscriptions (charge failed, Razorpay retrying) - record the state, keep the tier
+const handleSubscriptionPending = async (userId: string, subscription: RazorpaySubscriptionEntity, event: WebhookEventContext) => {
+  console.log('Subscription payment pending', { userId, subscriptionId: subscription.id });
+
+  const now = new Date().toISOString();
+  const result = await getTierRepository().mutateTier(userId, (existingTier) =>
+    isStaleEvent(existingTier.billing, event) ? null : {
+      updates: {
+        'billing.status': 'pending',
+        'billing.statusChangedAt': existingTier.billing?.status === 'pending' ? existingTier.billing.statusChangedAt || now : now,
+        ...(!event.repair && {
+          'billing.lastEventAt': event.createdAt,
+          'billing.lastEventType': event.eventType,
+          'billing.lastEventSubscriptionId': subscription.id,
+        }),
+      },
+      audit: webhookAudit(event),
+    }
+  );
+  if (!result) {
+    console.log('No existing tier found for pending subscription', { userId, subscriptionId: subscription.id });
+  }
+};
+
+// Handle halted (all charge retries failed) and paused subscriptions
+const handleSubscriptionSuspended = async (
+  userId: string, 
+  subscription: RazorpaySubscriptionEntity, 
+  planDetails: { tier: "BASIC" | "PRO", renewalPeriod: "MONTHLY" | "ANNUAL" },
+  event: WebhookEventContext
+) => {
+  const status: "halted" | "paused" = event.eventType === 'subscription.halted' ? 'halted' : 'paused';
+  const now = new Date();
+
+  const result = await getTierRepository().mutateTier(userId, (existingTier) => {
+    if (isStaleEvent(existingTier.billing, event)) {
+      return null;
+    }
+
+    // Keep the original grace window when the same state is delivered again
+    const isSameStatus = existingTier.billing?.status === status;
+    const statusChangedAt = isSameStatus && existingTier.billing?.statusChangedAt
+      ? existingTier.billing.statusChangedAt
+      : now.toISOString();
+    const accessEndsAt = isSameStatus && existingTier.billing?.accessEndsAt
+      ? existingTier.billing.accessEndsAt
+      : getSuspendedAccessEnd(status, now).toISOString();
+    const keepsAccess = new Date(accessEndsAt) > now;
+    const plan = getPaidUpgradePlan(existingTier.billing, subscription) || planDetails;
+
+    const billing: BillingInfo = {
+      renewalPeriod: existingTier.billing?.renewalPeriod || plan.renewalPeriod,
+      trialStartDate: existingTier.billing?.trialStartDate || null,
+      trialEndDate: existingTier.billing?.trialEndDate || null,
+      subscriptionStartDate: existingTier.billing?.subscriptionStartDate || null,
+      subscriptionEndDate: existingTier.billing?.subscriptionEndDate || null,
+      ...existingTier.billing,
+      // Keep the subscription id so a later resume/charge maps back to this user
+      razorpaySubscriptionId: subscription.id,
+      razorpayCustomerId: subscription.customer_id || existingTier.billing?.razorpayCustomerId,
+      status,
+      statusChangedAt,
+      accessEndsAt,
+      ...eventOrderingFields(subscription.id, event, existingTier.billing),
+    };
+
+    return { updates: { tier: keepsAccess ? plan.tier : 'NONE', billing }, audit: webhookAudit(event) };
+  });
+
+  if (!result?.applied) {
+    console.warn('Suspended subscription not applied - tier missing or newer event applied meanwhile', {
+      userId,
+      subscriptionId: subscription.id,
+      status
+    });
+    return;
+  }
+
+  console.log('Suspended subscription processed', {
+    userId,
+    subscriptionId: subscription.id,
+    status,
+    accessEndsAt: result.after.billing?.accessEndsAt,
+    tier: result.after.tier
+  });
+};
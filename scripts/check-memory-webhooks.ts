@@ -0,0 +1,130 @@
+// Runs the subscription lifecycle fixtures through the webhook route on the in-memory storage
+// backend and checks what every store recorded - no Firestore, Razorpay or providers needed.
+//
+//   npm run check:webhooks
+
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+import { POST } from '@/app/api/webhook/route';
+import { getPlanCatalog } from '@/lib/plan-catalog';
+import { getTierRepository } from '@/lib/tier-repository';
+import { getUserPayments } from '@/lib/payments';
+import { getWebhookEvent } from '@/lib/webhook-events';
+import { listOutboxEntries } from '@/lib/notifications';
+
+process.env.STORAGE_BACKEND = 'memory';
+process.env.RAZORPAY_MODE = 'test';
+process.env.RAZORPAY_WEBHOOK_SECRET = 'check_webhook_secret';
+process.env.NOTIFICATION_CHANNELS = 'console';
+
+const FIXTURE_FILE = path.join(process.cwd(), 'scripts', 'fixtures', 'subscription-lifecycle.json');
+
+const userId = '919700550849';
+const now = Math.floor(Date.now() / 1000);
+const variables: Record<string, string> = {
+  userId,
+  planId: 'plan_R7G6hu5lBKJdpl', // BASIC_MONTHLY in the bundled catalog
+  updatedPlanId: 'plan_R7G7VNbsYt55dG', // PRO_MONTHLY
+  subscriptionId: 'sub_check_memory',
+  customerId: `cust_check_${userId}`,
+};
+
+// Same placeholders as scripts/simulate-webhooks.mjs
+const renderValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(renderValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, renderValue(child)]));
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const timestamp = value.match(/^\{\{now([+-]\d+)?\}\}$/);
+  if (timestamp) {
+    return now + Number(timestamp[1] || 0);
+  }
+  return value.replace(/\{\{(\w+)\}\}/g, (_, name) => variables[name]);
+};
+
+const fixtures: { name: string; event: unknown }[] = JSON.parse(fs.readFileSync(FIXTURE_FILE, 'utf8'));
+
+const deliver = async (name: string) => {
+  const fixture = fixtures.find((candidate) => candidate.name === name);
+  assert.ok(fixture, `Unknown fixture ${name}`);
+
+  const body = JSON.stringify(renderValue(fixture.event));
+  const request = new NextRequest('http://localhost/api/webhook', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-razorpay-event-id': `evt_check_${name}`,
+      'x-razorpay-signature': crypto.createHmac('sha256', process.env.RAZORPAY_WEBHOOK_SECRET!).update(body).digest('hex'),
+    },
+    body,
+  });
+
+  const response = await POST(request);
+  const result = await response.json();
+  assert.equal(response.status, 200, `${name}: ${JSON.stringify(result)}`);
+  assert.equal(result.status, 'success', `${name}: ${JSON.stringify(result)}`);
+  return result;
+};
+
+const getTier = async () => {
+  const tier = await getTierRepository().getUserTier(userId);
+  assert.ok(tier, 'User tier missing');
+  return tier;
+};
+
+const main = async () => {
+  assert.equal((await getPlanCatalog()).source, 'default');
+
+  const trial = await getTierRepository().startUserTrial(userId, 7);
+  assert.ok(trial.started, 'Trial did not start');
+
+  await deliver('authenticated');
+  await deliver('activated');
+  let tier = await getTier();
+  assert.equal(tier.tier, 'BASIC');
+  assert.equal(tier.billing?.status, 'active');
+  assert.equal(tier.billing?.trialStatus, 'converted');
+  assert.equal(tier.billing?.isConfirmationSent, true, 'Activation message did not mark the confirmation sent');
+
+  // A retried delivery is answered from the ledger instead of being applied again
+  await deliver('activated');
+  assert.equal((await getWebhookEvent('evt_check_activated'))?.attempts, 1);
+
+  await deliver('charged');
+  const payments = await getUserPayments(userId);
+  assert.equal(payments.length, 1);
+  assert.equal(payments[0].status, 'captured');
+
+  await deliver('updated');
+  tier = await getTier();
+  assert.equal(tier.tier, 'PRO');
+
+  await deliver('cancelled');
+  tier = await getTier();
+  assert.equal(tier.billing?.isCancelled, true);
+  assert.equal(tier.billing?.status, 'cancelled');
+
+  const sent = await listOutboxEntries('sent');
+  for (const template of ['activation', 'plan_change', 'cancellation'] as const) {
+    assert.ok(sent.some((entry) => entry.template === template), `No ${template} notification sent`);
+  }
+
+  const history = await getTierRepository().getTierHistory(userId);
+  assert.ok(history && history.some((entry) => entry.toTier === 'PRO'), 'Plan change missing from tier history');
+
+  console.log('Memory backend webhook check passed', { deliveries: 6, notifications: sent.length, history: history.length });
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
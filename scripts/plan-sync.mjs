@@ -0,0 +1,64 @@
+#!/usr/bin/env node
+// Checks the plan catalog against the Razorpay Plans API through the running app's admin route.
+// Exits with 1 when any plan drifted or is missing, so it can gate a deploy.
+//
+//   node --env-file=.env.local scripts/plan-sync.mjs [options]
+//
+//   --url <url>            Admin route (default http://localhost:3000/api/admin/plan-sync)
+//   --create-missing       Create active catalog plans that have no Razorpay plan yet
+//   --json                 Print the raw report instead of a summary
+//
+// Authenticates with ADMIN_API_KEY.
+
+import { parseArgs } from 'node:util';
+
+const { values: options } = parseArgs({
+  options: {
+    url: { type: 'string', default: 'http://localhost:3000/api/admin/plan-sync' },
+    'create-missing': { type: 'boolean', default: false },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const adminApiKey = process.env.ADMIN_API_KEY;
+if (!adminApiKey) {
+  console.error('ADMIN_API_KEY is not set');
+  process.exit(1);
+}
+
+const response = await fetch(options.url, {
+  method: options['create-missing'] ? 'POST' : 'GET',
+  headers: {
+    'authorization': `Bearer ${adminApiKey}`,
+    'content-type': 'application/json',
+  },
+  ...(options['create-missing'] && { body: JSON.stringify({ createMissing: true }) }),
+}).catch((error) => {
+  console.error(`Request failed: ${error.message}`);
+  process.exit(1);
+});
+
+const report = await response.json().catch(() => null);
+if (!response.ok || !report) {
+  console.error(`Plan sync failed (${response.status})`, report);
+  process.exit(1);
+}
+
+if (options.json) {
+  console.log(JSON.stringify(report, null, 2));
+} else {
+  console.log(`Razorpay mode: ${report.mode}`);
+  for (const plan of report.plans) {
+    const label = `${plan.key} (${plan.catalogStatus})`.padEnd(28);
+    console.log(`  ${label} ${plan.status.padEnd(16)} ${plan.razorpayPlanId || '-'}`);
+    for (const difference of plan.differences) {
+      console.log(`      ${difference.field}: catalog ${difference.expected}, razorpay ${difference.actual}`);
+    }
+  }
+  if (report.untrackedPlanIds.length > 0) {
+    console.log(`Razorpay plans not in the catalog: ${report.untrackedPlanIds.join(', ')}`);
+  }
+  console.log(report.inSync ? 'Catalog matches Razorpay' : 'Catalog drift detected');
+}
+
+process.exit(report.inSync ? 0 : 1);
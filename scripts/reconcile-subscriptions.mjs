@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+// Compares stored tiers with their live Razorpay subscriptions through the running app's admin
+// route, page by page. Dry run by default; exits with 1 when drift remains or a check failed.
+//
+//   node --env-file=.env.local scripts/reconcile-subscriptions.mjs [options]
+//
+//   --url <url>            Admin route (default http://localhost:3000/api/admin/reconcile-subscriptions)
+//   --repair               Repair drift through the webhook handlers
+//   --page-size <n>        Subscriptions per request (default 200)
+//   --max <n>              Stop after this many subscriptions (default: all)
+//   --cursor <id>          Continue after this subscription id
+//   --json                 Print the raw reports instead of a summary
+//
+// Authenticates with ADMIN_API_KEY.
+
+import { parseArgs } from 'node:util';
+
+const { values: options } = parseArgs({
+  options: {
+    url: { type: 'string', default: 'http://localhost:3000/api/admin/reconcile-subscriptions' },
+    repair: { type: 'boolean', default: false },
+    'page-size': { type: 'string', default: '200' },
+    max: { type: 'string' },
+    cursor: { type: 'string' },
+    json: { type: 'boolean', default: false },
+  },
+});
+
+const adminApiKey = process.env.ADMIN_API_KEY;
+if (!adminApiKey) {
+  console.error('ADMIN_API_KEY is not set');
+  process.exit(1);
+}
+
+const pageSize = Number(options['page-size']);
+const max = options.max ? Number(options.max) : Infinity;
+const totals = { checked: 0, inSync: 0, drift: 0, repaired: 0, failed: 0 };
+const reports = [];
+let cursor = options.cursor || null;
+
+do {
+  const response = await fetch(options.url, {
+    method: 'POST',
+    headers: {
+      'authorization': `Bearer ${adminApiKey}`,
+      'content-type': 'application/json',
+    },
+    body: JSON.stringify({ dryRun: !options.repair, limit: Math.min(pageSize, max - totals.checked), cursor }),
+  }).catch((error) => {
+    console.error(`Request failed: ${error.message}`);
+    process.exit(1);
+  });
+
+  const report = await response.json().catch(() => null);
+  if (!response.ok || !report) {
+    console.error(`Reconciliation failed (${response.status}) after ${totals.checked} subscriptions`, report);
+    process.exit(1);
+  }
+
+  reports.push(report);
+  totals.checked += report.checkedCount;
+  totals.inSync += report.inSyncCount;
+  totals.drift += report.driftCount;
+  totals.repaired += report.repairedCount;
+  totals.failed += report.failedCount;
+  cursor = report.nextCursor;
+
+  if (!options.json) {
+    for (const result of report.results) {
+      const label = `${result.userId} ${result.subscriptionId}`.padEnd(44);
+      console.log(`  ${label} ${result.status.padEnd(10)} ${result.repairEvent || '-'}`);
+      for (const difference of result.differences) {
+        console.log(`      ${difference.field}: stored ${difference.stored}, razorpay ${difference.live}`);
+      }
+      if (result.error) {
+        console.log(`      error: ${result.error}`);
+      }
+    }
+  }
+} while (cursor && totals.checked < max);
+
+if (options.json) {
+  console.log(JSON.stringify(reports, null, 2));
+} else {
+  console.log(`${options.repair ? 'Repair' : 'Dry run'}: ${totals.checked} checked, ${totals.inSync} in sync, ` +
+    `${totals.drift} drift, ${totals.repaired} repaired, ${totals.failed} failed`);
+  if (cursor) {
+    console.log(`Stopped early - continue with --cursor ${cursor}`);
+  }
+}
+
+process.exit(totals.drift > 0 || totals.failed > 0 ? 1 : 0);
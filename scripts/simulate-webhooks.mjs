@@ -0,0 +1,195 @@
+#!/usr/bin/env node
+// Replays signed Razorpay webhook fixtures against a local server so lifecycle bugs
+// can be reproduced without a tunnel.
+//
+//   node --env-file=.env.local scripts/simulate-webhooks.mjs [options]
+//
+//   --url <url>            Webhook endpoint (default http://localhost:3000/api/webhook)
+//   --secret <secret>      Signing secret (default RAZORPAY_WEBHOOK_SECRET, or the first of RAZORPAY_WEBHOOK_SECRETS)
+//   --fixture <path>       Fixture file (default scripts/fixtures/subscription-lifecycle.json)
+//   --user <id>            User id placed in subscription notes (default 919700550849)
+//   --plan <plan_id>       Plan for the initial events (default BASIC_MONTHLY)
+//   --updated-plan <id>    Plan after subscription.updated (default PRO_MONTHLY)
+//   --subscription <id>    Subscription id (default a fresh sub_sim_* id per run)
+//   --customer <id>        Customer id (default cust_sim_<user>)
+//   --only <names>         Comma-separated fixture names to send, e.g. activated,charged
+//   --order <order>        reverse, shuffle, or a comma-separated list of fixture names
+//   --duplicate <names>    Send these fixtures twice with the same event id ("all" for every fixture)
+//   --delay <ms>           Pause between deliveries (default 300)
+//   --dry-run              Print the signed deliveries without sending them
+
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { fileURLToPath } from 'node:url';
+
+const SCRIPT_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+const { values: options } = parseArgs({
+  options: {
+    url: { type: 'string', default: 'http://localhost:3000/api/webhook' },
+    secret: { type: 'string' },
+    fixture: { type: 'string', default: path.join(SCRIPT_DIR, 'fixtures', 'subscription-lifecycle.json') },
+    user: { type: 'string', default: '919700550849' },
+    plan: { type: 'string', default: 'plan_R7G6hu5lBKJdpl' },
+    'updated-plan': { type: 'string', default: 'plan_R7G7VNbsYt55dG' },
+    subscription: { type: 'string' },
+    customer: { type: 'string' },
+    only: { type: 'string' },
+    order: { type: 'string' },
+    duplicate: { type: 'string' },
+    delay: { type: 'string', default: '300' },
+    'dry-run': { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+if (options.help) {
+  const source = fs.readFileSync(fileURLToPath(import.meta.url), 'utf8');
+  console.log(source.split('\n').slice(1, 19).map((line) => line.replace(/^\/\/ ?/, '')).join('\n'));
+  process.exit(0);
+}
+
+const secret = options.secret
+  || process.env.RAZORPAY_WEBHOOK_SECRET
+  || (process.env.RAZORPAY_WEBHOOK_SECRETS || '').split(',').map((value) => value.trim()).find(Boolean);
+
+if (!secret && !options['dry-run']) {
+  console.error('No signing secret - pass --secret or set RAZORPAY_WEBHOOK_SECRET');
+  process.exit(1);
+}
+
+const splitList = (value) => (value ? value.split(',').map((item) => item.trim()).filter(Boolean) : []);
+
+const runId = crypto.randomBytes(4).toString('hex');
+const now = Math.floor(Date.now() / 1000);
+const variables = {
+  runId,
+  userId: options.user,
+  planId: options.plan,
+  updatedPlanId: options['updated-plan'],
+  subscriptionId: options.subscription || `sub_sim_${runId}`,
+  customerId: options.customer || `cust_sim_${options.user}`,
+};
+
+// "{{now+60}}" becomes a unix timestamp, other placeholders are substituted inside strings
+const renderValue = (value) => {
+  if (Array.isArray(value)) {
+    return value.map(renderValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, renderValue(child)]));
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const timestamp = value.match(/^\{\{now([+-]\d+)?\}\}$/);
+  if (timestamp) {
+    return now + Number(timestamp[1] || 0);
+  }
+
+  return value.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => {
+    if (!(name in variables)) {
+      throw new Error(`Unknown fixture placeholder ${placeholder}`);
+    }
+    return variables[name];
+  });
+};
+
+const fixtures = JSON.parse(fs.readFileSync(options.fixture, 'utf8'));
+const fixtureNames = fixtures.map((fixture) => fixture.name);
+
+const assertKnownNames = (names, flag) => {
+  const unknown = names.filter((name) => name !== 'all' && !fixtureNames.includes(name));
+  if (unknown.length > 0) {
+    console.error(`Unknown fixture name(s) for --${flag}: ${unknown.join(', ')} (available: ${fixtureNames.join(', ')})`);
+    process.exit(1);
+  }
+};
+
+// Each fixture keeps one event id for the run, so duplicates look like Razorpay retries
+let deliveries = fixtures.map((fixture, index) => ({
+  name: fixture.name,
+  eventId: `evt_sim_${runId}_${index + 1}`,
+  event: renderValue(fixture.event),
+}));
+
+const only = splitList(options.only);
+assertKnownNames(only, 'only');
+if (only.length > 0) {
+  deliveries = deliveries.filter((delivery) => only.includes(delivery.name));
+}
+
+if (options.order === 'reverse') {
+  deliveries.reverse();
+} else if (options.order === 'shuffle') {
+  for (let i = deliveries.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [deliveries[i], deliveries[j]] = [deliveries[j], deliveries[i]];
+  }
+} else if (options.order) {
+  const order = splitList(options.order);
+  assertKnownNames(order, 'order');
+  deliveries = order
+    .map((name) => deliveries.find((delivery) => delivery.name === name))
+    .filter(Boolean);
+}
+
+const duplicates = splitList(options.duplicate);
+assertKnownNames(duplicates, 'duplicate');
+if (duplicates.length > 0) {
+  deliveries = deliveries.flatMap((delivery) =>
+    duplicates.includes('all') || duplicates.includes(delivery.name)
+      ? [delivery, { ...delivery, duplicate: true }]
+      : [delivery]
+  );
+}
+
+// Same HMAC the webhook route verifies: sha256 over the exact raw body, hex encoded
+const sign = (body) => crypto.createHmac('sha256', secret || '').update(body).digest('hex');
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+console.log('Simulating webhooks', {
+  url: options.url,
+  subscriptionId: variables.subscriptionId,
+  userId: variables.userId,
+  sequence: deliveries.map((delivery) => (delivery.duplicate ? `${delivery.name} (dup)` : delivery.name)),
+});
+
+let failures = 0;
+for (const [index, delivery] of deliveries.entries()) {
+  const body = JSON.stringify(delivery.event);
+  const headers = {
+    'content-type': 'application/json',
+    'x-razorpay-event-id': delivery.eventId,
+    'x-razorpay-signature': sign(body),
+  };
+  const label = `${delivery.name}${delivery.duplicate ? ' (dup)' : ''}`;
+
+  if (options['dry-run']) {
+    console.log(`\n[${label}] ${delivery.event.event}`, headers);
+    console.log(JSON.stringify(delivery.event, null, 2));
+    continue;
+  }
+
+  try {
+    const response = await fetch(options.url, { method: 'POST', headers, body });
+    const text = await response.text();
+    if (!response.ok) {
+      failures++;
+    }
+    console.log(`[${label}] ${delivery.event.event} -> ${response.status} ${text}`);
+  } catch (error) {
+    failures++;
+    console.error(`[${label}] ${delivery.event.event} -> request failed: ${error.message}`);
+  }
+
+  if (index < deliveries.length - 1) {
+    await sleep(Number(options.delay) || 0);
+  }
+}
+
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,17 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Tests run on the in-memory storage backend - no Firestore or Razorpay credentials needed
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['lib/**/*.test.ts'],
+    env: {
+      STORAGE_BACKEND: 'memory',
+      NOTIFICATION_CHANNELS: 'console',
+    },
+  },
+});